@@ -0,0 +1,185 @@
+#!/usr/bin/env node
+// folder-readme: generate the README structure from the command line, with
+// the same engine and settings as the web app.
+
+import { existsSync } from 'node:fs';
+import { readdir, readFile, writeFile } from 'node:fs/promises';
+import { basename, join, relative, resolve, sep } from 'node:path';
+import { parseArgs } from 'node:util';
+import { applyConfig, CONFIG_FILE_NAMES, parseConfig } from '../lib/config';
+import { diffLines, formatUnifiedDiff, hasChanges } from '../lib/diff';
+import { generateStructure } from '../lib/engine';
+import { EXPORT_FORMAT_LABELS, exportStructure, type ExportFormat } from '../lib/exports';
+import { mergeIntoReadme, STRUCTURE_END_MARKER, STRUCTURE_START_MARKER } from '../lib/readme';
+import { OUTPUT_STYLE_LABELS, type OutputStyle } from '../lib/render';
+import { DEFAULT_SETTINGS, pickRenderOptions, type GenerationSettings } from '../lib/settings';
+import { readProject } from './walk';
+
+const USAGE = `Usage: folder-readme <dir> [options]
+
+Options:
+  -o, --out <file>     Write the README to a file instead of printing it
+      --check          Exit with 1 and print a diff when the structure between
+                       the markers in the README is out of date
+      --write          Update the structure between the markers in the README
+  -s, --style <style>  Output style: ${Object.keys(OUTPUT_STYLE_LABELS).join(', ')}
+  -f, --format <fmt>   Print the structure as data instead of the README:
+                       ${Object.keys(EXPORT_FORMAT_LABELS).join(', ')}
+  -d, --depth <n>      Show at most n levels; 0 shows every level
+  -c, --config <file>  Config file; defaults to ${CONFIG_FILE_NAMES.join(' or ')} in <dir>
+      --count-lines    Count the lines of text files
+  -h, --help           Show this help
+
+With --check or --write, the README is --out or the README.md in <dir>. Its
+structure sits between ${STRUCTURE_START_MARKER} and
+${STRUCTURE_END_MARKER}; --write appends the markers when they are missing.
+The README itself is listed without a size or line count, which would change
+with every write.
+`;
+
+// A mistake in how the CLI was called; reported with the usage text
+class UsageError extends Error {}
+
+const parseCount = (value: string, option: string): number => {
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 0) {
+    throw new UsageError(`${option} must be a whole number, 0 or more`);
+  }
+  return count;
+};
+
+// Start from the defaults, then the project config, then the flags
+const loadSettings = async (
+  dir: string,
+  values: { style?: string; depth?: string; config?: string; 'count-lines'?: boolean }
+): Promise<GenerationSettings> => {
+  let settings = DEFAULT_SETTINGS;
+  const configPath = values.config
+    ? resolve(values.config)
+    : CONFIG_FILE_NAMES.map(name => join(dir, name)).find(path => existsSync(path));
+  if (configPath) {
+    settings = applyConfig(settings, parseConfig(await readFile(configPath, 'utf8'), configPath));
+  }
+  if (values.style !== undefined) {
+    if (!(values.style in OUTPUT_STYLE_LABELS)) {
+      throw new UsageError(`--style must be one of ${Object.keys(OUTPUT_STYLE_LABELS).join(', ')}`);
+    }
+    settings = { ...settings, outputStyle: values.style as OutputStyle };
+  }
+  if (values.depth !== undefined) settings = { ...settings, maxDepth: parseCount(values.depth, '--depth') };
+  if (values['count-lines']) settings = { ...settings, countLines: true };
+  return settings;
+};
+
+// The README that --check and --write work on
+const findReadme = async (dir: string, out: string | undefined): Promise<string> => {
+  if (out) return resolve(out);
+  const name = (await readdir(dir)).find(entry => entry.toLowerCase() === 'readme.md');
+  return join(dir, name || 'README.md');
+};
+
+const main = async (): Promise<number> => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      out: { type: 'string', short: 'o' },
+      style: { type: 'string', short: 's' },
+      format: { type: 'string', short: 'f' },
+      depth: { type: 'string', short: 'd' },
+      config: { type: 'string', short: 'c' },
+      'count-lines': { type: 'boolean' },
+      check: { type: 'boolean' },
+      write: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+  if (positionals.length !== 1) throw new UsageError('Expected exactly one directory');
+  if (values.check && values.write) throw new UsageError('Use either --check or --write, not both');
+  if (values.format !== undefined && !(values.format in EXPORT_FORMAT_LABELS)) {
+    throw new UsageError(`--format must be one of ${Object.keys(EXPORT_FORMAT_LABELS).join(', ')}`);
+  }
+  if (values.format !== undefined && (values.check || values.write)) {
+    throw new UsageError('--format cannot be used with --check or --write');
+  }
+
+  const dir = resolve(positionals[0]);
+  const settings = await loadSettings(dir, values);
+  const input = await readProject(dir, settings);
+
+  if (values.check || values.write) {
+    const readmePath = await findReadme(dir, values.out);
+    const exists = existsSync(readmePath);
+    const inside = relative(dir, readmePath);
+    if (!inside.startsWith('..')) {
+      const projectPath = inside.split(sep).join('/');
+      // A README that --write is about to create belongs in the tree already
+      if (!exists) input.paths.push(`${input.rootFolder}/${projectPath}`);
+      // Its size and line count change with every write, so --check would never pass
+      if (input.fileStats) delete input.fileStats[projectPath];
+    }
+    const { block } = generateStructure(input, settings);
+    const current = exists ? await readFile(readmePath, 'utf8') : '';
+    const updated = mergeIntoReadme(current, block, null);
+    const diff = diffLines(current, updated);
+    const name = basename(readmePath);
+
+    if (!hasChanges(diff)) {
+      process.stderr.write(`${name} is up to date\n`);
+      return 0;
+    }
+    if (values.write) {
+      await writeFile(readmePath, updated);
+      process.stderr.write(`Updated the structure in ${name}\n`);
+      return 0;
+    }
+    process.stdout.write(formatUnifiedDiff(diff, `a/${name}`, `b/${name}`));
+    process.stderr.write(
+      `${name} ${exists ? 'has an outdated structure' : 'does not exist'}; run folder-readme with --write to update it\n`
+    );
+    return 1;
+  }
+
+  const { readme, tree } = generateStructure(input, settings);
+
+  if (values.format !== undefined) {
+    const data = exportStructure(
+      tree,
+      input.rootFolder,
+      pickRenderOptions(settings),
+      input.fileStats || {},
+      values.format as ExportFormat
+    );
+    if (values.out) {
+      await writeFile(resolve(values.out), data);
+    } else {
+      process.stdout.write(data);
+    }
+    return 0;
+  }
+
+  // Without --out, a file name from the config is written next to the project
+  const out = values.out ? resolve(values.out) : settings.outputFileName ? join(dir, settings.outputFileName) : null;
+  if (out) {
+    await writeFile(out, readme);
+  } else {
+    process.stdout.write(readme);
+  }
+  return 0;
+};
+
+main().then(
+  code => {
+    process.exitCode = code;
+  },
+  (error: Error) => {
+    process.stderr.write(`folder-readme: ${error.message}\n`);
+    if (error instanceof UsageError || (error as NodeJS.ErrnoException).code === 'ERR_PARSE_ARGS_UNKNOWN_OPTION') {
+      process.stderr.write(`\n${USAGE}`);
+    }
+    process.exitCode = 2;
+  }
+);
@@ -0,0 +1,60 @@
+// Reads a project from disk into the engine's input, with paths starting at
+// the root folder name and always separated by `/`. Empty folders and
+// symlinks are listed too, which the browser's folder picker cannot do.
+
+import { openAsBlob } from 'node:fs';
+import { readdir, readFile, readlink, stat } from 'node:fs/promises';
+import { basename, join } from 'node:path';
+import type { EngineInput } from '../lib/engine';
+import { readManifests } from '../lib/overview';
+import type { GenerationSettings } from '../lib/settings';
+import { countLines, isBinaryPath, type FileStats } from '../lib/stats';
+import { walkProject, type WalkDirectory, type WalkFile } from '../lib/walk';
+
+interface DiskFile extends WalkFile {
+  absolutePath: string;
+}
+
+const diskFile = (absolutePath: string): DiskFile => ({
+  name: basename(absolutePath),
+  absolutePath,
+  text: () => readFile(absolutePath, 'utf8'),
+});
+
+const diskDirectory = (absolutePath: string): WalkDirectory<DiskFile> => ({
+  name: basename(absolutePath),
+  list: async () => {
+    const items: (DiskFile | WalkDirectory<DiskFile>)[] = [];
+    for (const entry of await readdir(absolutePath, { withFileTypes: true })) {
+      const path = join(absolutePath, entry.name);
+      if (entry.isSymbolicLink()) {
+        // Links are listed with their target but never followed, so a link
+        // cycle cannot loop forever
+        items.push({ ...diskFile(path), linkTarget: await readlink(path) });
+      } else if (entry.isDirectory()) {
+        items.push(diskDirectory(path));
+      } else if (entry.isFile()) {
+        items.push(diskFile(path));
+      }
+    }
+    return items;
+  },
+});
+
+export const readProject = async (dir: string, settings: GenerationSettings): Promise<EngineInput> => {
+  const fileStats: Record<string, FileStats> = {};
+  // Files at the root, where the manifests for the overview are
+  const rootFiles: { path: string; text: () => Promise<string> }[] = [];
+  const { rootFolder, paths, ignoreFiles, treeEntries } = await walkProject(diskDirectory(dir), settings, async (path, file, kept) => {
+    if (path.lastIndexOf('/') === path.indexOf('/')) rootFiles.push({ path, text: file.text });
+    if (!kept) return;
+    const stats: FileStats = { size: (await stat(file.absolutePath)).size };
+    if (settings.countLines && !isBinaryPath(path)) {
+      const lines = await countLines(await openAsBlob(file.absolutePath));
+      if (lines !== undefined) stats.lines = lines;
+    }
+    fileStats[path.slice(path.indexOf('/') + 1)] = stats;
+  });
+  const manifests = await readManifests(rootFiles, rootFolder);
+  return { rootFolder, paths, ignoreFiles, treeEntries, fileStats, manifests };
+};
@@ -0,0 +1,101 @@
+import { AlertTriangle, MessageSquare, Trash2 } from 'lucide-react';
+import { hasPath, type FileTree } from '../lib/tree';
+
+interface AnnotationsPanelProps {
+  annotations: Record<string, string>;
+  onChange: (annotations: Record<string, string>) => void;
+  // Children of the root folder from the last preview, used to find orphans
+  tree: FileTree | null;
+}
+
+function AnnotationsPanel({ annotations, onChange, tree }: AnnotationsPanelProps) {
+  const paths = Object.keys(annotations).sort();
+  const orphanCount = tree ? paths.filter(path => !hasPath(tree, path)).length : 0;
+
+  const handleEdit = (path: string, annotation: string) => {
+    onChange({ ...annotations, [path]: annotation });
+  };
+
+  const handleRemove = (path: string) => {
+    const next = { ...annotations };
+    delete next[path];
+    onChange(next);
+  };
+
+  // Drop every annotation whose path is no longer in the project
+  const handleRemoveOrphans = () => {
+    if (!tree) return;
+    const next: Record<string, string> = {};
+    paths.forEach(path => {
+      if (hasPath(tree, path)) next[path] = annotations[path];
+    });
+    onChange(next);
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-1">
+        <h2 className="text-lg font-semibold text-gray-800 flex items-center">
+          <MessageSquare className="mr-2 h-5 w-5 text-gray-600" />
+          Annotations
+        </h2>
+        {orphanCount > 0 && (
+          <button
+            onClick={handleRemoveOrphans}
+            className="text-xs text-gray-500 hover:text-red-600"
+          >
+            Remove {orphanCount} orphaned
+          </button>
+        )}
+      </div>
+      <p className="text-xs text-gray-500 mb-4">
+        Add a description to any entry from the preview tree. It is shown as a comment next to the entry.
+      </p>
+
+      {paths.length === 0 ? (
+        <div className="text-center py-3 text-sm text-gray-500 bg-gray-50 rounded-lg border border-dashed border-gray-300">
+          No annotations yet
+        </div>
+      ) : (
+        <ul className="space-y-3">
+          {paths.map(path => {
+            const orphaned = tree !== null && !hasPath(tree, path);
+            return (
+              <li key={path}>
+                <div className="flex items-center justify-between gap-2 mb-1">
+                  <code className={`truncate text-sm ${orphaned ? 'text-amber-700' : 'text-gray-700'}`}>{path}</code>
+                  {orphaned && (
+                    <span
+                      className="flex items-center text-xs text-amber-700 shrink-0"
+                      title="This path was not found in the last preview"
+                    >
+                      <AlertTriangle size={12} className="mr-1" />
+                      Orphaned
+                    </span>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={annotations[path]}
+                    onChange={(e) => handleEdit(path, e.target.value)}
+                    className="flex-1 min-w-0 px-2 py-1.5 text-sm border border-gray-200 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-200"
+                  />
+                  <button
+                    onClick={() => handleRemove(path)}
+                    className="p-1.5 text-gray-500 hover:text-red-500 hover:bg-red-50 rounded-md transition"
+                    title="Remove annotation"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default AnnotationsPanel;
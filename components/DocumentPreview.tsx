@@ -0,0 +1,115 @@
+import { useMemo, useState } from 'react';
+import { Check, Copy } from 'lucide-react';
+import { markdownToHtml, sanitizeHtml } from '../lib/markdown';
+import VirtualText from './VirtualText';
+
+type PreviewTab = 'source' | 'rendered' | 'full';
+
+const PREVIEW_TAB_LABELS: Record<PreviewTab, string> = {
+  source: "Markdown",
+  rendered: "Rendered",
+  full: "Full document",
+};
+
+const PREVIEW_TAB_TITLES: Record<PreviewTab, string> = {
+  source: "The Markdown source, with the tree cut short",
+  rendered: "The README as GitHub shows it, with the tree cut short",
+  full: "The whole document as it will be downloaded",
+};
+
+// Height of the preview area in pixels
+const PREVIEW_HEIGHT = 500;
+
+interface DocumentPreviewProps {
+  // The document with the tree cut short, or a message while there is none
+  preview: string;
+  // Build the whole document as it will be downloaded; null while there is none
+  getDocument: (() => string) | null;
+  // The structure as placed between the README markers
+  block: string | null;
+  onError: (message: string) => void;
+}
+
+function DocumentPreview({ preview, getDocument, block, onError }: DocumentPreviewProps) {
+  const [tab, setTab] = useState<PreviewTab>('source');
+  // Which copy button was used last, so it can show that it worked
+  const [copied, setCopied] = useState<'document' | 'block' | null>(null);
+
+  const renderedHtml = useMemo(
+    () => (tab === 'rendered' ? sanitizeHtml(markdownToHtml(preview)) : ''),
+    [tab, preview]
+  );
+  // Built only while the tab is open; the whole tree can be very long
+  const fullDocument = tab === 'full' && getDocument ? getDocument() : '';
+
+  const handleCopy = async (kind: 'document' | 'block', text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(kind);
+      setTimeout(() => setCopied(current => (current === kind ? null : current)), 2000);
+    } catch (error) {
+      onError(`Could not copy to the clipboard: ${(error as Error).message}`);
+    }
+  };
+
+  const copyButton = (kind: 'document' | 'block', label: string, getText: (() => string) | null) => (
+    <button
+      onClick={() => getText && handleCopy(kind, getText())}
+      disabled={!getText}
+      className="flex items-center text-xs text-gray-500 hover:text-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+    >
+      {copied === kind ? <Check size={12} className="mr-1" /> : <Copy size={12} className="mr-1" />}
+      {copied === kind ? "Copied" : label}
+    </button>
+  );
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-3 mb-2">
+        <div className="inline-flex rounded-md border border-gray-200 overflow-hidden text-sm">
+          {(Object.keys(PREVIEW_TAB_LABELS) as PreviewTab[]).map(key => (
+            <button
+              key={key}
+              onClick={() => setTab(key)}
+              title={PREVIEW_TAB_TITLES[key]}
+              className={`px-3 py-1 transition ${
+                tab === key ? 'bg-blue-50 text-blue-700 font-medium' : 'bg-white text-gray-600 hover:bg-gray-50'
+              }`}
+            >
+              {PREVIEW_TAB_LABELS[key]}
+            </button>
+          ))}
+        </div>
+        <div className="ml-auto flex items-center gap-3">
+          {copyButton('document', "Copy README", getDocument)}
+          {copyButton('block', "Copy tree", block === null ? null : () => block)}
+        </div>
+      </div>
+
+      <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+        {tab === 'source' && (
+          <div className="overflow-y-auto font-mono text-sm" style={{ height: PREVIEW_HEIGHT }}>
+            <pre className="whitespace-pre-wrap text-gray-700">{preview}</pre>
+          </div>
+        )}
+        {tab === 'rendered' && (
+          <div
+            className="markdown-body overflow-y-auto bg-white rounded-md px-6 py-4"
+            style={{ height: PREVIEW_HEIGHT }}
+            dangerouslySetInnerHTML={{ __html: renderedHtml }}
+          />
+        )}
+        {tab === 'full' &&
+          (getDocument ? (
+            <VirtualText text={fullDocument} height={PREVIEW_HEIGHT} />
+          ) : (
+            <div className="overflow-y-auto font-mono text-sm" style={{ height: PREVIEW_HEIGHT }}>
+              <pre className="whitespace-pre-wrap text-gray-700">{preview}</pre>
+            </div>
+          ))}
+      </div>
+    </div>
+  );
+}
+
+export default DocumentPreview;
@@ -0,0 +1,59 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronRight, EyeOff } from 'lucide-react';
+import { describeExclusion, type Exclusion } from '../lib/engine';
+
+interface ExclusionsPanelProps {
+  exclusions: Exclusion[];
+}
+
+// Long lists are cut short; a few hundred rows is already more than anyone reads
+const MAX_SHOWN = 200;
+
+function ExclusionsPanel({ exclusions }: ExclusionsPanelProps) {
+  const [open, setOpen] = useState(false);
+  if (exclusions.length === 0) return null;
+
+  const total = exclusions.reduce((sum, exclusion) => sum + exclusion.count, 0);
+  const shown = exclusions.slice(0, MAX_SHOWN);
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg mb-4">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center px-3 py-2 text-sm text-gray-700 hover:bg-gray-50 rounded-lg"
+      >
+        {open ? <ChevronDown size={14} className="mr-1" /> : <ChevronRight size={14} className="mr-1" />}
+        <EyeOff size={14} className="mr-1.5 text-gray-500" />
+        Excluded paths
+        <span className="ml-auto text-xs text-gray-500">
+          {total} {total === 1 ? 'entry' : 'entries'}
+        </span>
+      </button>
+
+      {open && (
+        <div className="border-t border-gray-200 max-h-[240px] overflow-y-auto">
+          <table className="w-full text-xs">
+            <tbody>
+              {shown.map(exclusion => (
+                <tr key={exclusion.path} className="border-b border-gray-100 last:border-0">
+                  <td className="px-3 py-1 font-mono text-gray-800 break-all">{exclusion.path}</td>
+                  <td className="px-3 py-1 text-gray-500">{describeExclusion(exclusion.reason)}</td>
+                  <td className="px-3 py-1 text-gray-500 text-right tabular-nums whitespace-nowrap">
+                    {exclusion.count > 1 ? `${exclusion.count} entries` : ''}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {exclusions.length > shown.length && (
+            <div className="px-3 py-1.5 text-xs text-gray-500">
+              and {exclusions.length - shown.length} more
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ExclusionsPanel;
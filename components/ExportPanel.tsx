@@ -0,0 +1,118 @@
+import { useMemo, useState } from 'react';
+import { Check, Copy, Download, FileJson } from 'lucide-react';
+import { downloadText } from '../lib/download';
+import {
+  EXPORT_FORMAT_LABELS,
+  exportFileName,
+  exportMimeType,
+  exportStructure,
+  formatMermaidBlock,
+  isMermaidFormat,
+  type ExportFormat,
+} from '../lib/exports';
+import type { TreeResult } from '../lib/jobs';
+import { pickRenderOptions, type GenerationSettings } from '../lib/settings';
+
+interface ExportPanelProps {
+  treeResult: TreeResult;
+  settings: GenerationSettings;
+  onError: (message: string) => void;
+}
+
+// Only the start of a long export is previewed; copy and download get all of it
+const PREVIEW_LINES = 200;
+
+function ExportPanel({ treeResult, settings, onError }: ExportPanelProps) {
+  const [format, setFormat] = useState<ExportFormat>('json');
+  // Wrap Mermaid diagrams in a ```mermaid block, ready to paste into Markdown
+  const [fenced, setFenced] = useState(true);
+  // The content last copied, so the button shows when the copy is current
+  const [copiedText, setCopiedText] = useState<string | null>(null);
+
+  const content = useMemo(() => {
+    const data = exportStructure(
+      treeResult.tree,
+      treeResult.rootFolder,
+      pickRenderOptions(settings),
+      treeResult.fileStats,
+      format
+    );
+    return fenced && isMermaidFormat(format) ? formatMermaidBlock(data.trimEnd()) : data;
+  }, [treeResult, settings, format, fenced]);
+
+  const lines = content.split(/\r?\n/);
+  const preview = lines.length > PREVIEW_LINES
+    ? `${lines.slice(0, PREVIEW_LINES).join('\n')}\n… ${lines.length - PREVIEW_LINES} more lines`
+    : content;
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(content);
+      setCopiedText(content);
+    } catch (error) {
+      onError(`Could not copy to the clipboard: ${(error as Error).message}`);
+    }
+  };
+
+  return (
+    <div className="mt-6 border-t border-gray-200 pt-6">
+      <h3 className="text-base font-semibold text-gray-800 mb-2 flex items-center">
+        <FileJson className="mr-2 h-4 w-4 text-gray-600" />
+        Export structure
+      </h3>
+      <p className="text-sm text-gray-600 mb-3">
+        The structure as data for other tools, or as a diagram GitHub draws inline. Unticked paths are
+        left out; diagrams also follow the depth and collapse limits.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-3 mb-3">
+        <select
+          value={format}
+          onChange={(e) => setFormat(e.target.value as ExportFormat)}
+          className="w-auto px-2 py-1.5 text-sm border border-gray-200 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-200"
+        >
+          {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map(key => (
+            <option key={key} value={key}>
+              {EXPORT_FORMAT_LABELS[key]}
+            </option>
+          ))}
+        </select>
+        {isMermaidFormat(format) && (
+          <label className="flex items-center text-xs text-gray-600">
+            <input
+              type="checkbox"
+              checked={fenced}
+              onChange={(e) => setFenced(e.target.checked)}
+              className="mr-1.5 rounded border-gray-300 text-blue-600"
+            />
+            In a <code className="mx-1">```mermaid</code> block
+          </label>
+        )}
+        <div className="ml-auto flex items-center gap-3">
+          <button
+            onClick={handleCopy}
+            className="px-3 py-1.5 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-md transition inline-flex items-center"
+          >
+            {copiedText === content ? <Check size={14} className="mr-1.5" /> : <Copy size={14} className="mr-1.5" />}
+            {copiedText === content ? "Copied" : "Copy"}
+          </button>
+          <button
+            onClick={() =>
+              downloadText(content, exportFileName(treeResult.rootFolder, format, fenced), exportMimeType(format, fenced))
+            }
+            className="px-3 py-1.5 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-md transition inline-flex items-center"
+          >
+            <Download size={14} className="mr-1.5" />
+            Download
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 max-h-[300px] overflow-auto font-mono text-xs">
+        <pre className="whitespace-pre text-gray-700">{preview}</pre>
+      </div>
+    </div>
+  );
+}
+
+export default ExportPanel;
@@ -0,0 +1,164 @@
+import { SlidersHorizontal } from 'lucide-react';
+import { DIRECTORY_STYLE_LABELS, type DirectoryStyle } from '../lib/render';
+import type { GenerationSettings } from '../lib/settings';
+import { SORT_MODE_LABELS, type SortMode } from '../lib/sort';
+
+interface OutputOptionsProps {
+  settings: GenerationSettings;
+  onChange: <K extends keyof GenerationSettings>(key: K, value: GenerationSettings[K]) => void;
+}
+
+// Read a non-negative whole number from a number input
+const toCount = (value: string): number => {
+  const parsed = parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 0;
+};
+
+function OutputOptions({ settings, onChange }: OutputOptionsProps) {
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <h2 className="text-lg font-semibold text-gray-800 mb-4 flex items-center">
+        <SlidersHorizontal className="mr-2 h-5 w-5 text-gray-600" />
+        Output Options
+      </h2>
+
+      <div className="space-y-4">
+        <div>
+          <label htmlFor="sortMode" className="block text-sm font-medium text-gray-700 mb-1">
+            Sort order
+          </label>
+          <select
+            id="sortMode"
+            value={settings.sortMode}
+            onChange={(e) => onChange('sortMode', e.target.value as SortMode)}
+            className="w-full px-2 py-1.5 text-sm border border-gray-200 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-200"
+          >
+            {(Object.keys(SORT_MODE_LABELS) as SortMode[]).map(mode => (
+              <option key={mode} value={mode}>{SORT_MODE_LABELS[mode]}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="directoryStyle" className="block text-sm font-medium text-gray-700 mb-1">
+            Folder markers
+          </label>
+          <select
+            id="directoryStyle"
+            value={settings.directoryStyle}
+            onChange={(e) => onChange('directoryStyle', e.target.value as DirectoryStyle)}
+            className="w-full px-2 py-1.5 text-sm border border-gray-200 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-200"
+          >
+            {(Object.keys(DIRECTORY_STYLE_LABELS) as DirectoryStyle[]).map(style => (
+              <option key={style} value={style}>{DIRECTORY_STYLE_LABELS[style]}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="maxDepth" className="block text-sm font-medium text-gray-700 mb-1">
+              Max depth
+            </label>
+            <input
+              id="maxDepth"
+              type="number"
+              min={0}
+              value={settings.maxDepth}
+              onChange={(e) => onChange('maxDepth', toCount(e.target.value))}
+              className="w-full px-2 py-1.5 text-sm border border-gray-200 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-200"
+            />
+            <p className="mt-1 text-xs text-gray-500">0 shows every level</p>
+          </div>
+          <div>
+            <label htmlFor="collapseThreshold" className="block text-sm font-medium text-gray-700 mb-1">
+              Collapse folders over
+            </label>
+            <input
+              id="collapseThreshold"
+              type="number"
+              min={0}
+              value={settings.collapseThreshold}
+              onChange={(e) => onChange('collapseThreshold', toCount(e.target.value))}
+              className="w-full px-2 py-1.5 text-sm border border-gray-200 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-200"
+            />
+            <p className="mt-1 text-xs text-gray-500">Entries; 0 never collapses</p>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.foldSingleChildDirs}
+              onChange={(e) => onChange('foldSingleChildDirs', e.target.checked)}
+              className="rounded border-gray-300 text-blue-600"
+            />
+            Fold single-child folders (src/main/java)
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.directoriesFirst}
+              onChange={(e) => onChange('directoriesFirst', e.target.checked)}
+              className="rounded border-gray-300 text-blue-600"
+            />
+            Directories before files
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.caseSensitive}
+              onChange={(e) => onChange('caseSensitive', e.target.checked)}
+              className="rounded border-gray-300 text-blue-600"
+            />
+            Case-sensitive (uppercase before lowercase)
+          </label>
+        </div>
+
+        <div className="space-y-2 pt-3 border-t border-gray-100">
+          <h3 className="text-sm font-medium text-gray-700">Statistics</h3>
+          <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.showSizes}
+              onChange={(e) => onChange('showSizes', e.target.checked)}
+              className="rounded border-gray-300 text-blue-600"
+            />
+            Show file sizes
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.showDirectoryTotals}
+              onChange={(e) => onChange('showDirectoryTotals', e.target.checked)}
+              className="rounded border-gray-300 text-blue-600"
+            />
+            Show file counts and totals on folders
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.countLines}
+              onChange={(e) => onChange('countLines', e.target.checked)}
+              className="rounded border-gray-300 text-blue-600"
+            />
+            Count lines in text files
+            <span className="text-xs text-gray-500">(on next preview)</span>
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.includeStatsSummary}
+              onChange={(e) => onChange('includeStatsSummary', e.target.checked)}
+              className="rounded border-gray-300 text-blue-600"
+            />
+            Append a summary by language to the README
+          </label>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default OutputOptions;
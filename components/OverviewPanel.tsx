@@ -0,0 +1,96 @@
+import { AlertTriangle, BookOpen, RotateCcw } from 'lucide-react';
+import type { OverviewSection } from '../lib/overview';
+
+interface OverviewPanelProps {
+  sections: OverviewSection[];
+  onChange: (sections: OverviewSection[]) => void;
+  // Write the sections again from the manifests, dropping edits
+  onRegenerate: () => void;
+  // Manifests the sections were written from, relative to the root folder
+  sources: string[];
+  // Whether the README template has a place for the overview
+  templateHasOverview: boolean;
+  hasProject: boolean;
+}
+
+function OverviewPanel({ sections, onChange, onRegenerate, sources, templateHasOverview, hasProject }: OverviewPanelProps) {
+  const handleUpdate = (index: number, changes: Partial<OverviewSection>) => {
+    onChange(sections.map((section, i) => (i === index ? { ...section, ...changes } : section)));
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-1">
+        <h2 className="text-lg font-semibold text-gray-800 flex items-center">
+          <BookOpen className="mr-2 h-5 w-5 text-gray-600" />
+          Project Overview
+        </h2>
+        {sources.length > 0 && (
+          <button
+            onClick={onRegenerate}
+            className="flex items-center text-xs text-gray-500 hover:text-gray-700"
+            title="Write the sections again from the manifests, dropping your edits"
+          >
+            <RotateCcw size={12} className="mr-1" />
+            Regenerate
+          </button>
+        )}
+      </div>
+      <p className="text-xs text-gray-500 mb-4">
+        {sources.length > 0
+          ? `Written from ${sources.join(', ')}. Untick a section to leave it out.`
+          : "Written from package.json, pyproject.toml, Cargo.toml, go.mod, Dockerfile, Compose files and LICENSE at the project root."}
+      </p>
+
+      {sections.length > 0 && !templateHasOverview && (
+        <div className="flex items-start text-xs text-amber-700 bg-amber-50 rounded-md p-2 mb-3">
+          <AlertTriangle size={14} className="mr-1.5 shrink-0" />
+          <span>
+            The README template has no <code>{"{{overview}}"}</code> placeholder, so these sections are not shown.
+          </span>
+        </div>
+      )}
+
+      {sections.length === 0 ? (
+        <div className="text-center py-3 text-sm text-gray-500 bg-gray-50 rounded-lg border border-dashed border-gray-300">
+          {hasProject ? "No manifest files found in the project" : "Select a project folder first"}
+        </div>
+      ) : (
+        <ul className="space-y-4">
+          {sections.map((section, index) => (
+            <li key={section.id}>
+              <div className="flex items-center gap-2 mb-1">
+                <input
+                  type="checkbox"
+                  checked={section.enabled}
+                  onChange={(e) => handleUpdate(index, { enabled: e.target.checked })}
+                  className="rounded border-gray-300 text-blue-600"
+                  title={section.enabled ? "Leave this section out" : "Include this section"}
+                />
+                <input
+                  type="text"
+                  value={section.title}
+                  onChange={(e) => handleUpdate(index, { title: e.target.value })}
+                  className={`flex-1 min-w-0 px-2 py-1 text-sm font-medium border border-gray-200 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-200 ${
+                    section.enabled ? 'text-gray-800' : 'text-gray-400 line-through'
+                  }`}
+                />
+              </div>
+              {section.enabled && (
+                <textarea
+                  value={section.content}
+                  onChange={(e) => handleUpdate(index, { content: e.target.value })}
+                  rows={Math.min(10, section.content.split('\n').length + 1)}
+                  spellCheck={false}
+                  className="w-full px-2 py-1.5 font-mono text-xs border border-gray-200 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-200"
+                />
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default OverviewPanel;
@@ -0,0 +1,82 @@
+import { useMemo, useState } from 'react';
+import { ClipboardList } from 'lucide-react';
+import { DEFAULT_PASTED_ROOT, parsePathList, type PathList } from '../lib/path-list';
+
+interface PathListInputProps {
+  onSubmit: (list: PathList, rootFolder: string) => void;
+  onCancel: () => void;
+}
+
+const FORMAT_LABELS: Record<PathList['format'], string> = {
+  paths: "path list",
+  tree: "tree listing",
+};
+
+function PathListInput({ onSubmit, onCancel }: PathListInputProps) {
+  const [text, setText] = useState("");
+  const [rootName, setRootName] = useState("");
+
+  const list = useMemo(() => parsePathList(text), [text]);
+  const rootFolder = rootName.trim() || list.rootFolder || DEFAULT_PASTED_ROOT;
+
+  return (
+    <div className="bg-gray-50 rounded-lg border border-gray-200 p-4 space-y-3">
+      <div>
+        <label htmlFor="pathList" className="block text-sm font-medium text-gray-700 mb-1">
+          Paste paths
+        </label>
+        <p className="text-xs text-gray-500 mb-2">
+          One path per line from <code>git ls-files</code> or <code>find . -type f</code>, or the output of{" "}
+          <code>tree</code>.
+        </p>
+        <textarea
+          id="pathList"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          rows={8}
+          spellCheck={false}
+          placeholder={"src/index.ts\nsrc/utils/format.ts\npackage.json"}
+          className="w-full px-2 py-1.5 font-mono text-xs border border-gray-200 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-200"
+        />
+        {text.trim() && (
+          <div className="text-xs text-gray-500 mt-1">
+            {list.paths.length} {list.paths.length === 1 ? 'file' : 'files'} found in the {FORMAT_LABELS[list.format]}
+          </div>
+        )}
+      </div>
+
+      <div>
+        <label htmlFor="pathListRoot" className="block text-sm font-medium text-gray-700 mb-1">
+          Project name
+        </label>
+        <input
+          id="pathListRoot"
+          type="text"
+          value={rootName}
+          onChange={(e) => setRootName(e.target.value.replace(/\//g, ''))}
+          placeholder={list.rootFolder || DEFAULT_PASTED_ROOT}
+          className="w-full px-2 py-1.5 text-sm border border-gray-200 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-200"
+        />
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={onCancel}
+          className="px-3 py-1.5 text-sm text-gray-600 hover:bg-gray-100 rounded-md transition"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => onSubmit(list, rootFolder)}
+          disabled={list.paths.length === 0}
+          className="flex items-center px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition disabled:opacity-50"
+        >
+          <ClipboardList size={14} className="mr-1.5" />
+          Use These Paths
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default PathListInput;
@@ -0,0 +1,153 @@
+import { useRef, useState } from 'react';
+import { Download, FileCog, Save, Trash2, Upload, UserCog } from 'lucide-react';
+import type { Profile } from '../lib/profiles';
+
+interface ProfilesPanelProps {
+  profiles: Profile[];
+  activeProfile: Profile | null;
+  // Whether the current settings differ from the active profile
+  isModified: boolean;
+  // Root folder of the selected project, remembered with saved profiles
+  rootFolder: string | null;
+  onSelect: (name: string | null) => void;
+  onSave: (name: string) => void;
+  onDelete: (name: string) => void;
+  onImport: (file: File) => void;
+  onExport: () => void;
+  // Download the current settings as a .folder-readme.json
+  onExportConfig: () => void;
+}
+
+function ProfilesPanel({
+  profiles,
+  activeProfile,
+  isModified,
+  rootFolder,
+  onSelect,
+  onSave,
+  onDelete,
+  onImport,
+  onExport,
+  onExportConfig,
+}: ProfilesPanelProps) {
+  const [newName, setNewName] = useState("");
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const saveAs = () => {
+    const name = newName.trim();
+    if (!name) return;
+    onSave(name);
+    setNewName("");
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <h2 className="text-lg font-semibold text-gray-800 mb-4 flex items-center">
+        <UserCog className="mr-2 h-5 w-5 text-gray-600" />
+        Profiles
+      </h2>
+
+      <div className="space-y-4">
+        <div className="flex items-center gap-2">
+          <select
+            value={activeProfile ? activeProfile.name : ''}
+            onChange={(e) => onSelect(e.target.value || null)}
+            className="flex-1 px-2 py-1.5 text-sm border border-gray-200 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-200"
+            title="Active profile"
+          >
+            <option value="">No profile</option>
+            {profiles.map(profile => (
+              <option key={profile.name} value={profile.name}>{profile.name}</option>
+            ))}
+          </select>
+          {activeProfile && (
+            <>
+              <button
+                onClick={() => onSave(activeProfile.name)}
+                disabled={!isModified && (!rootFolder || activeProfile.rootFolders.includes(rootFolder))}
+                className="p-2 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-md transition disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Save the current settings to this profile"
+              >
+                <Save size={16} />
+              </button>
+              <button
+                onClick={() => onDelete(activeProfile.name)}
+                className="p-2 text-gray-500 hover:text-red-500 hover:bg-red-50 rounded-md transition"
+                title="Delete this profile"
+              >
+                <Trash2 size={16} />
+              </button>
+            </>
+          )}
+        </div>
+
+        {activeProfile && (
+          <p className="text-xs text-gray-500">
+            {isModified ? "Settings changed since the profile was saved. " : ""}
+            {activeProfile.rootFolders.length > 0
+              ? `Loaded automatically for ${activeProfile.rootFolders.join(', ')}.`
+              : "Not linked to a folder yet; save it with a folder selected."}
+          </p>
+        )}
+
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && saveAs()}
+            placeholder="New profile, e.g. python service"
+            className="flex-1 px-2 py-1.5 text-sm border border-gray-200 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-200"
+          />
+          <button
+            onClick={saveAs}
+            disabled={!newName.trim()}
+            className="flex items-center px-3 py-1.5 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-md transition disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Save size={14} className="mr-1.5" />
+            Save as
+          </button>
+        </div>
+
+        <div className="flex items-center gap-4 pt-3 border-t border-gray-100">
+          <input
+            type="file"
+            accept=".json,application/json"
+            ref={importInputRef}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onImport(file);
+              e.target.value = "";
+            }}
+            className="hidden"
+          />
+          <button
+            onClick={() => importInputRef.current?.click()}
+            className="flex items-center text-xs text-gray-500 hover:text-gray-700"
+          >
+            <Upload size={12} className="mr-1" />
+            Import JSON
+          </button>
+          <button
+            onClick={onExport}
+            disabled={profiles.length === 0}
+            className="flex items-center text-xs text-gray-500 hover:text-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Download size={12} className="mr-1" />
+            Export JSON
+          </button>
+          <button
+            onClick={onExportConfig}
+            className="flex items-center text-xs text-gray-500 hover:text-gray-700 ml-auto"
+            title="Download the current settings as a config file to commit to the project"
+          >
+            <FileCog size={12} className="mr-1" />
+            Export .folder-readme.json
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ProfilesPanel;
@@ -0,0 +1,149 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Download, FileDiff, GitMerge } from 'lucide-react';
+import { diffLines, formatUnifiedDiff, hasChanges } from '../lib/diff';
+import { downloadText } from '../lib/download';
+import { findHeadings, findStructureBlock, mergeIntoReadme, STRUCTURE_START_MARKER } from '../lib/readme';
+import { basenameOf } from '../lib/gitignore';
+
+interface ReadmeMergePanelProps {
+  // The README.md found in the selected folder, with its path
+  readme: { path: string; text: () => Promise<string> } | null;
+  // The structure section to place between the markers
+  block: string;
+  onError: (message: string) => void;
+}
+
+// Pick the heading that most likely introduces the structure, if any
+const suggestHeading = (markdown: string): number | null => {
+  const heading = findHeadings(markdown).find(({ text }) => /structure|layout|files|folders/i.test(text));
+  return heading ? heading.line : null;
+};
+
+function ReadmeMergePanel({ readme, block, onError }: ReadmeMergePanelProps) {
+  const [readmeText, setReadmeText] = useState<string | null>(null);
+  const [headingLine, setHeadingLine] = useState<number | null>(null);
+  const [showDiff, setShowDiff] = useState(false);
+  // The latest callback, so a new one does not read the README again
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+
+  useEffect(() => {
+    let cancelled = false;
+    setReadmeText(null);
+    if (readme) {
+      readme
+        .text()
+        .then(text => {
+          if (cancelled) return;
+          setReadmeText(text);
+          setHeadingLine(suggestHeading(text));
+        })
+        .catch((error: Error) => {
+          // The file may have been moved or deleted since the folder was read
+          if (!cancelled) onErrorRef.current(`Could not read ${basenameOf(readme.path)}: ${error.message}`);
+        });
+    }
+    return () => {
+      cancelled = true;
+    };
+  }, [readme]);
+
+  const headings = useMemo(() => (readmeText ? findHeadings(readmeText) : []), [readmeText]);
+  const merged = useMemo(
+    () => (readmeText === null ? null : mergeIntoReadme(readmeText, block, headingLine)),
+    [readmeText, block, headingLine]
+  );
+  const diff = useMemo(
+    () => (readmeText === null || merged === null ? [] : diffLines(readmeText, merged)),
+    [readmeText, merged]
+  );
+
+  if (!readme) {
+    return (
+      <div className="mt-6 text-sm text-gray-500 text-center">
+        No README.md found in the selected folder to update.
+      </div>
+    );
+  }
+  if (readmeText === null || merged === null) return null;
+
+  const fileName = basenameOf(readme.path);
+  const hasMarkers = findStructureBlock(readmeText) !== null;
+  const changed = hasChanges(diff);
+
+  return (
+    <div className="mt-6 border-t border-gray-200 pt-6">
+      <h3 className="text-base font-semibold text-gray-800 mb-2 flex items-center">
+        <GitMerge className="mr-2 h-4 w-4 text-gray-600" />
+        Update {fileName}
+      </h3>
+
+      {hasMarkers ? (
+        <p className="text-sm text-gray-600 mb-3">
+          The structure markers were found; only the content between them is replaced.
+        </p>
+      ) : (
+        <div className="mb-3">
+          <p className="text-sm text-gray-600 mb-2">
+            No <code>{STRUCTURE_START_MARKER}</code> markers yet. Choose where to insert the structure;
+            markers are added so later updates replace it in place.
+          </p>
+          <select
+            value={headingLine === null ? '' : headingLine}
+            onChange={(e) => setHeadingLine(e.target.value === '' ? null : Number(e.target.value))}
+            className="w-full px-2 py-1.5 text-sm border border-gray-200 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-200"
+          >
+            <option value="">At the end of the file</option>
+            {headings.map(heading => (
+              <option key={heading.line} value={heading.line}>
+                {'#'.repeat(heading.level)} {heading.text}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          onClick={() => setShowDiff(!showDiff)}
+          className="px-4 py-2 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition inline-flex items-center"
+        >
+          <FileDiff size={16} className="mr-2" />
+          {showDiff ? "Hide changes" : "Show changes"}
+        </button>
+        <button
+          onClick={() => downloadText(merged, fileName)}
+          disabled={!changed}
+          className="px-4 py-2 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 transition inline-flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Download size={16} className="mr-2" />
+          Download updated {fileName}
+        </button>
+        {!changed && <span className="text-sm text-gray-500">Already up to date</span>}
+      </div>
+
+      {showDiff && changed && (
+        <div className="mt-4 bg-gray-50 border border-gray-200 rounded-lg p-4 max-h-[400px] overflow-auto font-mono text-xs">
+          {formatUnifiedDiff(diff, `a/${fileName}`, `b/${fileName}`).split('\n').map((line, index) => (
+            <div
+              key={index}
+              className={`whitespace-pre ${
+                line.startsWith('+') && !line.startsWith('+++')
+                  ? 'bg-green-50 text-green-800'
+                  : line.startsWith('-') && !line.startsWith('---')
+                    ? 'bg-red-50 text-red-800'
+                    : line.startsWith('@@')
+                      ? 'text-blue-700'
+                      : 'text-gray-600'
+              }`}
+            >
+              {line || ' '}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ReadmeMergePanel;
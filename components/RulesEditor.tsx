@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import {
+  createRule,
+  RULE_KIND_DESCRIPTIONS,
+  RULE_KIND_LABELS,
+  validateRule,
+  type PatternRule,
+  type RuleKind,
+} from '../lib/rules';
+
+interface RulesEditorProps {
+  title: string;
+  icon: React.ReactNode;
+  rules: PatternRule[];
+  onChange: (rules: PatternRule[]) => void;
+  // Number of paths each rule matched during the last preview, by rule id
+  matchCounts: Record<string, number> | null;
+  placeholder: string;
+  emptyText: string;
+  actions?: React.ReactNode;
+}
+
+function KindSelect({ value, onChange }: { value: RuleKind; onChange: (kind: RuleKind) => void }) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value as RuleKind)}
+      title={RULE_KIND_DESCRIPTIONS[value]}
+      className="px-1.5 py-1.5 text-sm border border-gray-200 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-200"
+    >
+      {(Object.keys(RULE_KIND_LABELS) as RuleKind[]).map(kind => (
+        <option key={kind} value={kind} title={RULE_KIND_DESCRIPTIONS[kind]}>
+          {RULE_KIND_LABELS[kind]}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+function RulesEditor({
+  title,
+  icon,
+  rules,
+  onChange,
+  matchCounts,
+  placeholder,
+  emptyText,
+  actions,
+}: RulesEditorProps) {
+  const [draft, setDraft] = useState("");
+  const [draftKind, setDraftKind] = useState<RuleKind>('pattern');
+  const draftError = draft.trim() ? validateRule(draft.trim(), draftKind) : null;
+
+  // Add the typed pattern as a new rule
+  const handleAddRule = () => {
+    if (!draft.trim() || draftError) return;
+    onChange([...rules, createRule(draft.trim(), true, draftKind)]);
+    setDraft("");
+  };
+
+  const handleUpdateRule = (id: string, changes: Partial<PatternRule>) => {
+    onChange(rules.map(rule => (rule.id === id ? { ...rule, ...changes } : rule)));
+  };
+
+  const handleRemoveRule = (id: string) => {
+    onChange(rules.filter(rule => rule.id !== id));
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-semibold text-gray-700 flex items-center">
+          {icon}
+          {title}
+        </h3>
+        {actions}
+      </div>
+
+      <div className="space-y-2">
+        {rules.map(rule => {
+          const error = validateRule(rule.pattern, rule.kind);
+          const count = matchCounts ? matchCounts[rule.id] || 0 : null;
+          return (
+            <div key={rule.id}>
+              <div className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  onChange={(e) => handleUpdateRule(rule.id, { enabled: e.target.checked })}
+                  className="rounded border-gray-300 text-blue-600"
+                  title={rule.enabled ? "Disable rule" : "Enable rule"}
+                />
+                <KindSelect
+                  value={rule.kind}
+                  onChange={(kind) => handleUpdateRule(rule.id, { kind })}
+                />
+                <input
+                  type="text"
+                  value={rule.pattern}
+                  onChange={(e) => handleUpdateRule(rule.id, { pattern: e.target.value })}
+                  spellCheck={false}
+                  className={`flex-1 min-w-0 px-2 py-1.5 font-mono text-sm border rounded-md focus:outline-none focus:ring-2 ${
+                    error
+                      ? 'border-red-300 focus:ring-red-200'
+                      : 'border-gray-200 focus:ring-blue-200'
+                  } ${rule.enabled ? 'text-gray-800' : 'text-gray-400 line-through'}`}
+                />
+                {count !== null && (
+                  <span
+                    className="text-xs text-gray-500 tabular-nums w-16 text-right"
+                    title="Paths matched in the last preview"
+                  >
+                    {count} {count === 1 ? 'path' : 'paths'}
+                  </span>
+                )}
+                <button
+                  onClick={() => handleRemoveRule(rule.id)}
+                  className="p-1.5 text-gray-500 hover:text-red-500 hover:bg-red-50 rounded-md transition"
+                  title="Remove rule"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+              {error && <div className="mt-1 ml-6 text-xs text-red-600">{error}</div>}
+            </div>
+          );
+        })}
+
+        {rules.length === 0 && (
+          <div className="text-center py-3 text-sm text-gray-500 bg-gray-50 rounded-lg border border-dashed border-gray-300">
+            {emptyText}
+          </div>
+        )}
+
+        <div className="flex items-center gap-2">
+          <KindSelect value={draftKind} onChange={setDraftKind} />
+          <input
+            type="text"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                handleAddRule();
+              }
+            }}
+            placeholder={placeholder}
+            spellCheck={false}
+            className="flex-1 min-w-0 px-2 py-1.5 font-mono text-sm border border-gray-200 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-200"
+          />
+          <button
+            onClick={handleAddRule}
+            disabled={!draft.trim() || !!draftError}
+            className="flex items-center px-3 py-1.5 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-md transition disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Plus size={16} className="mr-1" />
+            Add
+          </button>
+        </div>
+        {draftError && <div className="text-xs text-red-600">{draftError}</div>}
+      </div>
+    </div>
+  );
+}
+
+export default RulesEditor;
@@ -0,0 +1,155 @@
+import { useMemo, useRef, useState } from 'react';
+import { Camera, Check, Copy, Download, GitCompare, Loader2, X } from 'lucide-react';
+import { ARCHIVE_EXTENSIONS } from '../lib/archives';
+import { downloadText } from '../lib/download';
+import type { GenerationSettings } from '../lib/settings';
+import { formatSnapshot, loadSnapshot, snapshotFileName, type StructureSnapshot } from '../lib/snapshots';
+import { diffSnapshots, formatDiffMarkdown, renderDiffTree, summarizeDiff } from '../lib/structure-diff';
+
+interface StructureDiffPanelProps {
+  // The structure of the current preview
+  current: StructureSnapshot;
+  // Used to read an archive picked as the earlier structure
+  settings: GenerationSettings;
+  onError: (message: string) => void;
+}
+
+const MARKER_CLASSES: Record<string, string> = {
+  '+': 'bg-green-50 text-green-800',
+  '-': 'bg-red-50 text-red-800',
+  '~': 'bg-amber-50 text-amber-800',
+};
+
+function StructureDiffPanel({ current, settings, onError }: StructureDiffPanelProps) {
+  const [baseline, setBaseline] = useState<StructureSnapshot | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [changedOnly, setChangedOnly] = useState(true);
+  // The Markdown last copied, so the button shows when the copy is current
+  const [copiedText, setCopiedText] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const diff = useMemo(() => (baseline ? diffSnapshots(baseline, current) : null), [baseline, current]);
+  const treeText = useMemo(
+    () => (baseline && diff ? renderDiffTree(diff, baseline, current, settings, changedOnly) : ''),
+    [diff, baseline, current, settings, changedOnly]
+  );
+  const markdown = baseline && diff ? formatDiffMarkdown(diff, treeText, baseline, current) : '';
+  const copied = copiedText === markdown;
+
+  const handleCompare = async (file: File) => {
+    setLoading(true);
+    try {
+      setBaseline(await loadSnapshot(file, settings));
+    } catch (error) {
+      if ((error as DOMException).name !== 'AbortError') {
+        onError(`Could not compare with ${file.name}: ${(error as Error).message}`);
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(markdown);
+      setCopiedText(markdown);
+    } catch (error) {
+      onError(`Could not copy to the clipboard: ${(error as Error).message}`);
+    }
+  };
+
+  return (
+    <div className="mt-6 border-t border-gray-200 pt-6">
+      <h3 className="text-base font-semibold text-gray-800 mb-2 flex items-center">
+        <GitCompare className="mr-2 h-4 w-4 text-gray-600" />
+        Compare structure
+      </h3>
+      <p className="text-sm text-gray-600 mb-3">
+        Save a snapshot of this structure, then compare a later preview with it. An archive of an
+        earlier release works too. Moved and renamed files are found by their name and size.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          onClick={() => downloadText(formatSnapshot(current), snapshotFileName(current.rootFolder), "application/json")}
+          className="px-4 py-2 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition inline-flex items-center"
+        >
+          <Camera size={16} className="mr-2" />
+          Save snapshot
+        </button>
+        <input
+          type="file"
+          accept={['.json', ...ARCHIVE_EXTENSIONS].join(',')}
+          ref={fileInputRef}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleCompare(file);
+            e.target.value = "";
+          }}
+          className="hidden"
+        />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={loading}
+          className="px-4 py-2 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition inline-flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {loading ? <Loader2 size={16} className="mr-2 animate-spin" /> : <GitCompare size={16} className="mr-2" />}
+          Compare with…
+        </button>
+      </div>
+
+      {baseline && diff && (
+        <div className="mt-4">
+          <div className="flex flex-wrap items-center gap-3 mb-2">
+            <span className="text-sm text-gray-700">
+              Since {baseline.rootFolder} ({baseline.createdAt.slice(0, 10)}): {summarizeDiff(diff)}
+            </span>
+            <label className="flex items-center text-xs text-gray-600">
+              <input
+                type="checkbox"
+                checked={changedOnly}
+                onChange={(e) => setChangedOnly(e.target.checked)}
+                className="mr-1.5 rounded border-gray-300 text-blue-600"
+              />
+              Only changed folders
+            </label>
+            <div className="ml-auto flex items-center gap-3">
+              <button
+                onClick={handleCopy}
+                className="flex items-center text-xs text-gray-500 hover:text-gray-700"
+              >
+                {copied ? <Check size={12} className="mr-1" /> : <Copy size={12} className="mr-1" />}
+                {copied ? "Copied" : "Copy Markdown"}
+              </button>
+              <button
+                onClick={() => downloadText(markdown, `${current.rootFolder}-structure-changes.md`)}
+                className="flex items-center text-xs text-gray-500 hover:text-gray-700"
+              >
+                <Download size={12} className="mr-1" />
+                Download .md
+              </button>
+              <button
+                onClick={() => setBaseline(null)}
+                className="flex items-center text-xs text-gray-500 hover:text-gray-700"
+                title="Stop comparing"
+              >
+                <X size={12} className="mr-1" />
+                Clear
+              </button>
+            </div>
+          </div>
+
+          <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 max-h-[400px] overflow-auto font-mono text-xs">
+            {treeText.split('\n').map((line, index) => (
+              <div key={index} className={`whitespace-pre ${MARKER_CLASSES[line[0]] ?? 'text-gray-600'}`}>
+                {line}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default StructureDiffPanel;
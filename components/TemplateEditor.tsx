@@ -0,0 +1,175 @@
+import { useState } from 'react';
+import { LayoutTemplate, Save, Trash2 } from 'lucide-react';
+import type { GenerationSettings } from '../lib/settings';
+import { loadSavedTemplates, storeSavedTemplates, type SavedTemplate } from '../lib/saved-templates';
+import {
+  TEMPLATE_PRESETS,
+  TEMPLATE_VARIABLES,
+  validateTemplate,
+  type TemplatePresetId,
+} from '../lib/template';
+
+interface TemplateEditorProps {
+  settings: GenerationSettings;
+  onChange: <K extends keyof GenerationSettings>(key: K, value: GenerationSettings[K]) => void;
+}
+
+function TemplateEditor({ settings, onChange }: TemplateEditorProps) {
+  const [savedTemplates, setSavedTemplates] = useState<SavedTemplate[]>(loadSavedTemplates);
+  const [templateName, setTemplateName] = useState("");
+  const error = validateTemplate(settings.template);
+
+  const updateSavedTemplates = (templates: SavedTemplate[]) => {
+    setSavedTemplates(templates);
+    storeSavedTemplates(templates);
+  };
+
+  // Save the current template, replacing one with the same name
+  const saveTemplate = () => {
+    const name = templateName.trim();
+    if (!name) return;
+    updateSavedTemplates([
+      ...savedTemplates.filter(saved => saved.name !== name),
+      { name, template: settings.template },
+    ]);
+    setTemplateName("");
+  };
+
+  // Load a preset or a saved template, encoded as "preset:<id>" or "saved:<name>"
+  const loadTemplate = (value: string) => {
+    if (value.startsWith('preset:')) {
+      onChange('template', TEMPLATE_PRESETS[value.slice('preset:'.length) as TemplatePresetId].template);
+    } else {
+      const saved = savedTemplates.find(entry => `saved:${entry.name}` === value);
+      if (saved) onChange('template', saved.template);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <h2 className="text-lg font-semibold text-gray-800 mb-4 flex items-center">
+        <LayoutTemplate className="mr-2 h-5 w-5 text-gray-600" />
+        README Template
+      </h2>
+
+      <div className="space-y-4">
+        <div>
+          <label htmlFor="templatePreset" className="block text-sm font-medium text-gray-700 mb-1">
+            Start from
+          </label>
+          <select
+            id="templatePreset"
+            value=""
+            onChange={(e) => loadTemplate(e.target.value)}
+            className="w-full px-2 py-1.5 text-sm border border-gray-200 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-200"
+          >
+            <option value="" disabled>Choose a template…</option>
+            <optgroup label="Presets">
+              {(Object.keys(TEMPLATE_PRESETS) as TemplatePresetId[]).map(id => (
+                <option key={id} value={`preset:${id}`}>{TEMPLATE_PRESETS[id].label}</option>
+              ))}
+            </optgroup>
+            {savedTemplates.length > 0 && (
+              <optgroup label="Saved">
+                {savedTemplates.map(saved => (
+                  <option key={saved.name} value={`saved:${saved.name}`}>{saved.name}</option>
+                ))}
+              </optgroup>
+            )}
+          </select>
+        </div>
+
+        <div>
+          <textarea
+            value={settings.template}
+            onChange={(e) => onChange('template', e.target.value)}
+            rows={12}
+            spellCheck={false}
+            className={`w-full px-2 py-1.5 font-mono text-xs border rounded-md focus:outline-none focus:ring-2 ${
+              error ? 'border-red-300 focus:ring-red-200' : 'border-gray-200 focus:ring-blue-200'
+            }`}
+          />
+          {error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+          <details className="mt-1 text-xs text-gray-500">
+            <summary className="cursor-pointer">Variables and sections</summary>
+            <ul className="mt-2 space-y-0.5">
+              {(Object.keys(TEMPLATE_VARIABLES) as (keyof typeof TEMPLATE_VARIABLES)[]).map(name => (
+                <li key={name}>
+                  <code>{`{{${name}}}`}</code> — {TEMPLATE_VARIABLES[name]}
+                </li>
+              ))}
+            </ul>
+            <p className="mt-2">
+              Wrap text in <code>{'{{#if stats}}'}</code> … <code>{'{{/if}}'}</code> to show it only when a
+              variable is set, with an optional <code>{'{{else}}'}</code>. <code>{'{{#unless …}}'}</code> does
+              the opposite.
+            </p>
+          </details>
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.includeFooter}
+            onChange={(e) => onChange('includeFooter', e.target.checked)}
+            className="rounded border-gray-300 text-blue-600"
+          />
+          Include the "generated with" footer link
+        </label>
+
+        <div>
+          <label htmlFor="outputFileName" className="block text-sm font-medium text-gray-700 mb-1">
+            Output file name
+          </label>
+          <input
+            id="outputFileName"
+            type="text"
+            value={settings.outputFileName}
+            onChange={(e) => onChange('outputFileName', e.target.value.replace(/[\\/]/g, ''))}
+            placeholder="Named after the root folder"
+            className="w-full px-2 py-1.5 text-sm border border-gray-200 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-200"
+          />
+        </div>
+
+        <div className="pt-3 border-t border-gray-100">
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={templateName}
+              onChange={(e) => setTemplateName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && saveTemplate()}
+              placeholder="Template name"
+              className="flex-1 px-2 py-1.5 text-sm border border-gray-200 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-200"
+            />
+            <button
+              onClick={saveTemplate}
+              disabled={!templateName.trim() || error !== null}
+              className="flex items-center px-3 py-1.5 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-md transition disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Save size={14} className="mr-1.5" />
+              Save
+            </button>
+          </div>
+          {savedTemplates.length > 0 && (
+            <ul className="mt-2 space-y-1">
+              {savedTemplates.map(saved => (
+                <li key={saved.name} className="flex items-center justify-between gap-2 text-sm">
+                  <span className="truncate text-gray-700">{saved.name}</span>
+                  <button
+                    onClick={() => updateSavedTemplates(savedTemplates.filter(entry => entry.name !== saved.name))}
+                    className="p-1 text-gray-500 hover:text-red-500 hover:bg-red-50 rounded-md transition"
+                    title="Delete saved template"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default TemplateEditor;
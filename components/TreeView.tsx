@@ -0,0 +1,156 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronRight, File, Folder, Link, MessageSquare } from 'lucide-react';
+import type { SortOptions } from '../lib/sort';
+import { isDirectory, sortedKeys, type FileTree } from '../lib/tree';
+
+interface TreeViewProps {
+  // The children of the root folder
+  tree: FileTree;
+  rootFolder: string;
+  sort: SortOptions;
+  // Paths relative to the root folder that are unticked
+  exclusions: string[];
+  onToggleExclusion: (path: string, exclude: boolean) => void;
+  // Descriptions keyed by path relative to the root folder
+  annotations: Record<string, string>;
+  onAnnotate: (path: string, annotation: string) => void;
+}
+
+function TreeView({
+  tree,
+  rootFolder,
+  sort,
+  exclusions,
+  onToggleExclusion,
+  annotations,
+  onAnnotate,
+}: TreeViewProps) {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [editingPath, setEditingPath] = useState<string | null>(null);
+  const [draft, setDraft] = useState("");
+  const excluded = new Set(exclusions);
+
+  const startEditing = (path: string) => {
+    setEditingPath(path);
+    setDraft(annotations[path] || "");
+  };
+
+  const finishEditing = () => {
+    if (editingPath !== null) onAnnotate(editingPath, draft.trim());
+    setEditingPath(null);
+  };
+
+  const toggleExpanded = (path: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+  };
+
+  // Each row is indented by depth; children are only rendered when expanded
+  const renderNodes = (node: FileTree, prefix: string, depth: number, parentExcluded: boolean): JSX.Element[] => {
+    return sortedKeys(node, sort).map(key => {
+      const path = prefix + key;
+      const child = node[key];
+      const directory = isDirectory(child);
+      const hasChildren = Object.keys(child.children).length > 0;
+      const isOpen = expanded.has(path);
+      const isExcluded = parentExcluded || excluded.has(path);
+      return (
+        <li key={path}>
+          <div
+            className="group flex items-center gap-1 py-0.5 pr-2 rounded hover:bg-gray-100"
+            style={{ paddingLeft: `${depth * 16}px` }}
+          >
+            {hasChildren ? (
+              <button
+                onClick={() => toggleExpanded(path)}
+                className="p-0.5 text-gray-500 hover:text-gray-700"
+                title={isOpen ? "Collapse" : "Expand"}
+              >
+                {isOpen ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+              </button>
+            ) : (
+              <span className="w-[18px]" />
+            )}
+            <input
+              type="checkbox"
+              checked={!isExcluded}
+              disabled={parentExcluded}
+              onChange={(e) => onToggleExclusion(path, !e.target.checked)}
+              className="rounded border-gray-300 text-blue-600 disabled:opacity-50"
+              title={parentExcluded ? "A parent folder is excluded" : isExcluded ? "Include" : "Exclude"}
+            />
+            {directory ? (
+              <Folder size={14} className="text-blue-500 shrink-0" />
+            ) : child.type === 'symlink' ? (
+              <Link size={14} className="text-gray-400 shrink-0" />
+            ) : (
+              <File size={14} className="text-gray-400 shrink-0" />
+            )}
+            <span className={`truncate ${isExcluded ? 'text-gray-400 line-through' : 'text-gray-700'}`}>
+              {key}
+              {child.type === 'symlink' && child.target !== undefined && (
+                <span className="text-gray-400"> → {child.target}</span>
+              )}
+            </span>
+            {editingPath === path ? (
+              <input
+                type="text"
+                autoFocus
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onBlur={finishEditing}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') finishEditing();
+                  if (e.key === 'Escape') setEditingPath(null);
+                }}
+                placeholder="Describe this entry"
+                className="flex-1 min-w-0 ml-2 px-1.5 py-0.5 text-xs font-sans border border-blue-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-200"
+              />
+            ) : (
+              <>
+                {annotations[path] && (
+                  <button
+                    onClick={() => startEditing(path)}
+                    className="ml-2 truncate text-xs text-gray-500 italic font-sans hover:text-gray-700"
+                    title="Edit description"
+                  >
+                    # {annotations[path]}
+                  </button>
+                )}
+                {!annotations[path] && (
+                  <button
+                    onClick={() => startEditing(path)}
+                    className="ml-1 p-0.5 text-gray-400 hover:text-blue-600 opacity-0 group-hover:opacity-100 focus:opacity-100 transition"
+                    title="Add a description"
+                  >
+                    <MessageSquare size={12} />
+                  </button>
+                )}
+              </>
+            )}
+          </div>
+          {hasChildren && isOpen && <ul>{renderNodes(child.children, path + '/', depth + 1, isExcluded)}</ul>}
+        </li>
+      );
+    });
+  };
+
+  return (
+    <div className="text-sm font-mono">
+      <div className="flex items-center gap-1 py-0.5 font-semibold text-gray-800">
+        <Folder size={14} className="text-blue-600" />
+        {rootFolder}
+      </div>
+      <ul>{renderNodes(tree, '', 1, false)}</ul>
+    </div>
+  );
+}
+
+export default TreeView;
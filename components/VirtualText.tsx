@@ -0,0 +1,47 @@
+import { useMemo, useState } from 'react';
+
+interface VirtualTextProps {
+  text: string;
+  // Height of the scrolling area in pixels
+  height: number;
+}
+
+// Every line has the same height, so the lines in view follow from the scroll
+// position alone
+const LINE_HEIGHT = 20;
+// Lines drawn above and below the view, so fast scrolling shows no gaps
+const OVERSCAN = 30;
+
+// A long text with only the lines in view in the page, so documents with
+// 100k lines scroll as smoothly as short ones. Lines do not wrap.
+function VirtualText({ text, height }: VirtualTextProps) {
+  const lines = useMemo(() => text.split('\n'), [text]);
+  const [scrollTop, setScrollTop] = useState(0);
+
+  const first = Math.max(0, Math.floor(scrollTop / LINE_HEIGHT) - OVERSCAN);
+  const last = Math.min(lines.length, Math.ceil((scrollTop + height) / LINE_HEIGHT) + OVERSCAN);
+  const gutterWidth = `${String(lines.length).length + 1}ch`;
+
+  return (
+    <div
+      className="overflow-auto font-mono text-sm text-gray-700"
+      style={{ height }}
+      onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+    >
+      <div className="min-w-max" style={{ height: lines.length * LINE_HEIGHT }}>
+        <div style={{ transform: `translateY(${first * LINE_HEIGHT}px)` }}>
+          {lines.slice(first, last).map((line, offset) => (
+            <div key={first + offset} className="flex whitespace-pre" style={{ height: LINE_HEIGHT, lineHeight: `${LINE_HEIGHT}px` }}>
+              <span className="shrink-0 pr-3 text-right text-gray-400 select-none" style={{ width: gutterWidth }}>
+                {first + offset + 1}
+              </span>
+              <span>{line || ' '}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default VirtualText;
@@ -0,0 +1,54 @@
+import { Boxes } from 'lucide-react';
+import {
+  packageTitle,
+  WORKSPACE_MODE_LABELS,
+  WORKSPACE_TOOL_LABELS,
+  type Workspace,
+  type WorkspaceMode,
+} from '../lib/workspaces';
+
+interface WorkspacePanelProps {
+  workspace: Workspace;
+  mode: WorkspaceMode;
+  onModeChange: (mode: WorkspaceMode) => void;
+}
+
+function WorkspacePanel({ workspace, mode, onModeChange }: WorkspacePanelProps) {
+  const count = workspace.packages.length;
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <h2 className="text-lg font-semibold text-gray-800 mb-1 flex items-center">
+        <Boxes className="mr-2 h-5 w-5 text-gray-600" />
+        Workspace
+      </h2>
+      <p className="text-xs text-gray-500 mb-4">
+        {WORKSPACE_TOOL_LABELS[workspace.tool]} with {count} {count === 1 ? 'package' : 'packages'}. Each package
+        is read like a project of its own, with its own ignore files and config.
+      </p>
+
+      <label htmlFor="workspaceMode" className="block text-sm font-medium text-gray-700 mb-1">
+        Write
+      </label>
+      <select
+        id="workspaceMode"
+        value={mode}
+        onChange={(e) => onModeChange(e.target.value as WorkspaceMode)}
+        className="w-full px-2 py-1.5 text-sm border border-gray-200 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-200"
+      >
+        {(Object.keys(WORKSPACE_MODE_LABELS) as WorkspaceMode[]).map(value => (
+          <option key={value} value={value}>{WORKSPACE_MODE_LABELS[value]}</option>
+        ))}
+      </select>
+
+      <ul className="mt-3 max-h-40 overflow-y-auto text-sm space-y-1">
+        {workspace.packages.map(pkg => (
+          <li key={pkg.path} className="truncate text-gray-700" title={pkg.path}>
+            <code>{packageTitle(pkg)}</code>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export default WorkspacePanel;
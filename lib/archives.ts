@@ -0,0 +1,448 @@
+// Reads ZIP and tar(.gz) archives in the browser, so a release download can be
+// documented without unpacking it. Files are cut out of the archive as blobs;
+// deflated ZIP entries stay compressed until their content is read.
+
+import type { ProgressCallback, SourceEntry } from './jobs';
+import type { WorkerJob } from './worker-client';
+
+export interface Archive {
+  // The archive's file name without its extension, used as the root folder
+  // when the whole archive is the project
+  name: string;
+  // Files, empty folders and symlinks, with paths relative to the top of the archive
+  entries: SourceEntry[];
+}
+
+export const ARCHIVE_EXTENSIONS = ['.zip', '.tar', '.tar.gz', '.tgz'];
+
+export const isArchiveName = (fileName: string): boolean => {
+  const lower = fileName.toLowerCase();
+  return ARCHIVE_EXTENSIONS.some(extension => lower.endsWith(extension));
+};
+
+const archiveBaseName = (fileName: string): string => {
+  const lower = fileName.toLowerCase();
+  const extension = [...ARCHIVE_EXTENSIONS]
+    .sort((a, b) => b.length - a.length)
+    .find(candidate => lower.endsWith(candidate));
+  return (extension ? fileName.slice(0, -extension.length) : fileName) || 'archive';
+};
+
+// Drop `./`, leading and trailing slashes and empty segments. Returns null for
+// entries that should not be listed: macOS resource forks and paths leaving the archive.
+const cleanEntryPath = (path: string): string | null => {
+  const segments = path.split('/').filter(segment => segment !== '' && segment !== '.');
+  if (segments.length === 0) return null;
+  if (segments.includes('..') || segments[0] === '__MACOSX') return null;
+  return segments.join('/');
+};
+
+// Keep only the folders with nothing below them; the others show up anyway
+const keepEmptyFolders = (entries: SourceEntry[]): SourceEntry[] => {
+  const parents = new Set<string>();
+  entries.forEach(({ path }) => {
+    for (let index = path.indexOf('/'); index !== -1; index = path.indexOf('/', index + 1)) {
+      parents.add(path.slice(0, index));
+    }
+  });
+  return entries.filter(entry => entry.type !== 'directory' || !parents.has(entry.path));
+};
+
+const toFile = (blob: Blob, path: string): File => {
+  return new File([blob], path.slice(path.lastIndexOf('/') + 1));
+};
+
+const readBytes = async (blob: Blob, start: number, end: number): Promise<DataView> => {
+  return new DataView(await blob.slice(start, end).arrayBuffer());
+};
+
+const inflate = (blob: Blob, format: CompressionFormat): Promise<Blob> => {
+  return new Response(blob.stream().pipeThrough(new DecompressionStream(format))).blob();
+};
+
+// The content of an entry's file, inflated first when it is still compressed.
+// Only the files whose content is needed are inflated, not the whole archive.
+export const readEntryFile = async ({ path, file, compression }: SourceEntry): Promise<Blob> => {
+  if (!file) throw new Error(`${path} is not a file.`);
+  return compression ? inflate(file, compression) : file;
+};
+
+export const readEntryText = async (entry: SourceEntry): Promise<string> => {
+  return (await readEntryFile(entry)).text();
+};
+
+// The size of an entry's content, known without inflating it
+export const entryFileSize = ({ file, size }: SourceEntry): number | undefined => {
+  return size ?? file?.size;
+};
+
+const textDecoder = new TextDecoder();
+
+const decodeText = (view: DataView, offset: number, length: number): string => {
+  return textDecoder.decode(new Uint8Array(view.buffer, view.byteOffset + offset, length));
+};
+
+// Thrown from inside a read to stop it once the job is cancelled
+const CANCELLED = new DOMException('Reading the archive was cancelled', 'AbortError');
+
+type EntryCallback = (entry: SourceEntry, done: number, total: number) => void;
+
+// ZIP
+
+const ZIP_LOCAL_HEADER = 0x04034b50;
+const ZIP_CENTRAL_HEADER = 0x02014b50;
+const ZIP_END = 0x06054b50;
+const ZIP64_END_LOCATOR = 0x07064b50;
+const ZIP64_EXTRA = 0x0001;
+const ZIP_MAX_COMMENT = 0xffff;
+// Unix file types, kept in the high half of the external attributes
+const ZIP_HOST_UNIX = 3;
+const S_IFMT = 0o170000;
+const S_IFLNK = 0o120000;
+
+const findZipEnd = async (blob: Blob): Promise<{ view: DataView; offset: number; tailStart: number }> => {
+  const tailStart = Math.max(0, blob.size - 22 - ZIP_MAX_COMMENT);
+  const view = await readBytes(blob, tailStart, blob.size);
+  for (let offset = view.byteLength - 22; offset >= 0; offset--) {
+    if (view.getUint32(offset, true) === ZIP_END) return { view, offset, tailStart };
+  }
+  throw new Error('The ZIP file has no central directory; it may be damaged or cut short.');
+};
+
+const readZip = async (blob: Blob, onEntry: EntryCallback) => {
+  const end = await findZipEnd(blob);
+  let count = end.view.getUint16(end.offset + 10, true);
+  let directoryOffset = end.view.getUint32(end.offset + 16, true);
+
+  // ZIP64 keeps the real values in a record before the end of central directory
+  const locatorOffset = end.offset - 20;
+  if (locatorOffset >= 0 && end.view.getUint32(locatorOffset, true) === ZIP64_END_LOCATOR) {
+    const recordOffset = Number(end.view.getBigUint64(locatorOffset + 8, true));
+    const record = await readBytes(blob, recordOffset, recordOffset + 56);
+    count = Number(record.getBigUint64(32, true));
+    directoryOffset = Number(record.getBigUint64(48, true));
+  }
+
+  const directory = await readBytes(blob, directoryOffset, end.tailStart + end.offset);
+  let offset = 0;
+  for (let index = 0; index < count; index++) {
+    if (directory.getUint32(offset, true) !== ZIP_CENTRAL_HEADER) {
+      throw new Error('The ZIP file has a damaged central directory.');
+    }
+    const host = directory.getUint8(offset + 5);
+    const method = directory.getUint16(offset + 10, true);
+    let compressedSize = directory.getUint32(offset + 20, true);
+    let inflatedSize = directory.getUint32(offset + 24, true);
+    const nameLength = directory.getUint16(offset + 28, true);
+    const extraLength = directory.getUint16(offset + 30, true);
+    const commentLength = directory.getUint16(offset + 32, true);
+    const mode = directory.getUint32(offset + 38, true) >>> 16;
+    let localOffset = directory.getUint32(offset + 42, true);
+    const name = decodeText(directory, offset + 46, nameLength);
+
+    // Sizes and offsets too large for 32 bits move to the ZIP64 extra field, in this order
+    let extra = offset + 46 + nameLength;
+    const extraEnd = extra + extraLength;
+    while (extra + 4 <= extraEnd) {
+      const id = directory.getUint16(extra, true);
+      const size = directory.getUint16(extra + 2, true);
+      if (id === ZIP64_EXTRA) {
+        let field = extra + 4;
+        if (inflatedSize === 0xffffffff) {
+          inflatedSize = Number(directory.getBigUint64(field, true));
+          field += 8;
+        }
+        if (compressedSize === 0xffffffff) {
+          compressedSize = Number(directory.getBigUint64(field, true));
+          field += 8;
+        }
+        if (localOffset === 0xffffffff) localOffset = Number(directory.getBigUint64(field, true));
+      }
+      extra += 4 + size;
+    }
+    offset = extraEnd + commentLength;
+
+    const path = cleanEntryPath(name);
+    if (!path) continue;
+    if (name.endsWith('/')) {
+      onEntry({ path, type: 'directory' }, index + 1, count);
+      continue;
+    }
+
+    const local = await readBytes(blob, localOffset, localOffset + 30);
+    if (local.getUint32(0, true) !== ZIP_LOCAL_HEADER) {
+      throw new Error(`The ZIP file has a damaged entry: ${name}`);
+    }
+    const dataStart = localOffset + 30 + local.getUint16(26, true) + local.getUint16(28, true);
+    const data = blob.slice(dataStart, dataStart + compressedSize);
+    if (method !== 0 && method !== 8) {
+      throw new Error(`${name} uses a ZIP compression method that is not supported (${method}).`);
+    }
+    // Deflated files keep their compressed bytes until they are read
+    const entry: SourceEntry =
+      method === 8
+        ? { path, file: toFile(data, path), compression: 'deflate-raw', size: inflatedSize }
+        : { path, file: toFile(data, path) };
+    if (host === ZIP_HOST_UNIX && (mode & S_IFMT) === S_IFLNK) {
+      // A symlink stores where it points as its content
+      onEntry({ path, type: 'symlink', target: await readEntryText(entry) }, index + 1, count);
+    } else {
+      onEntry(entry, index + 1, count);
+    }
+  }
+};
+
+// tar
+
+const TAR_BLOCK = 512;
+
+const readTarNumber = (view: DataView, offset: number, length: number): number => {
+  // Large values use base-256, flagged by the high bit of the first byte
+  if (view.getUint8(offset) & 0x80) {
+    let value = view.getUint8(offset) & 0x7f;
+    for (let i = 1; i < length; i++) value = value * 256 + view.getUint8(offset + i);
+    return value;
+  }
+  const text = decodeText(view, offset, length).replace(/\0.*$/s, '').trim();
+  return text ? parseInt(text, 8) : 0;
+};
+
+const readTarString = (view: DataView, offset: number, length: number): string => {
+  return decodeText(view, offset, length).replace(/\0.*$/s, '');
+};
+
+const isTarHeader = (view: DataView): boolean => {
+  let sum = 0;
+  for (let i = 0; i < TAR_BLOCK; i++) {
+    // The checksum field counts as spaces
+    sum += i >= 148 && i < 156 ? 0x20 : view.getUint8(i);
+  }
+  return sum === readTarNumber(view, 148, 8);
+};
+
+const isZeroBlock = (view: DataView): boolean => {
+  for (let i = 0; i < TAR_BLOCK; i++) {
+    if (view.getUint8(i) !== 0) return false;
+  }
+  return true;
+};
+
+// A record of a pax extended header, made of "<length> <key>=<value>\n" records
+const readPaxRecord = (text: string, key: string): string | null => {
+  let offset = 0;
+  while (offset < text.length) {
+    const space = text.indexOf(' ', offset);
+    const length = parseInt(text.slice(offset, space), 10);
+    if (space < 0 || !(length > 0)) return null;
+    const record = text.slice(space + 1, offset + length - 1);
+    if (record.startsWith(`${key}=`)) return record.slice(key.length + 1);
+    offset += length;
+  }
+  return null;
+};
+
+const readTar = async (blob: Blob, onEntry: EntryCallback) => {
+  let offset = 0;
+  let count = 0;
+  // Set by a GNU long name or pax header for the entry that follows it
+  let nextName: string | null = null;
+  let nextLinkName: string | null = null;
+
+  while (offset + TAR_BLOCK <= blob.size) {
+    const header = await readBytes(blob, offset, offset + TAR_BLOCK);
+    if (isZeroBlock(header)) break;
+    if (!isTarHeader(header)) {
+      throw new Error(count === 0 && offset === 0 ? 'Not a ZIP or tar archive.' : 'The tar file has a damaged header.');
+    }
+
+    const size = readTarNumber(header, 124, 12);
+    const type = String.fromCharCode(header.getUint8(156));
+    const dataStart = offset + TAR_BLOCK;
+    const data = blob.slice(dataStart, dataStart + size);
+    offset = dataStart + Math.ceil(size / TAR_BLOCK) * TAR_BLOCK;
+
+    if (type === 'L' || type === 'K') {
+      const longName = (await data.text()).replace(/\0.*$/s, '');
+      if (type === 'L') nextName = longName;
+      else nextLinkName = longName;
+      continue;
+    }
+    if (type === 'x') {
+      const records = await data.text();
+      nextName = readPaxRecord(records, 'path') ?? nextName;
+      nextLinkName = readPaxRecord(records, 'linkpath') ?? nextLinkName;
+      continue;
+    }
+
+    let name = readTarString(header, 0, 100);
+    if (readTarString(header, 257, 5) === 'ustar') {
+      const prefix = readTarString(header, 345, 155);
+      if (prefix) name = `${prefix}/${name}`;
+    }
+    if (nextName !== null) name = nextName;
+    const linkName = nextLinkName ?? readTarString(header, 157, 100);
+    nextName = null;
+    nextLinkName = null;
+
+    const path = cleanEntryPath(name);
+    if (!path) continue;
+    if (type === '5') {
+      onEntry({ path, type: 'directory' }, count, 0);
+    } else if (type === '2') {
+      count++;
+      onEntry({ path, type: 'symlink', target: linkName }, count, 0);
+    } else if (type === '0' || type === '\0' || type === '7') {
+      count++;
+      onEntry({ path, file: toFile(data, path) }, count, 0);
+    }
+    // Hard links and devices are left out
+  }
+};
+
+const startsWithBytes = async (blob: Blob, bytes: number[]): Promise<boolean> => {
+  const view = await readBytes(blob, 0, bytes.length);
+  return view.byteLength === bytes.length && bytes.every((byte, i) => view.getUint8(i) === byte);
+};
+
+// Read every file in an archive. Progress counts files read; the total is 0
+// for tar files, where it is not known up front.
+export const startArchiveRead = (file: File, onProgress: ProgressCallback): WorkerJob<Archive> => {
+  let cancelled = false;
+  const entries: SourceEntry[] = [];
+  const onEntry: EntryCallback = (entry, done, total) => {
+    if (cancelled) throw CANCELLED;
+    entries.push(entry);
+    if (done % 100 === 0) onProgress('scanning', done, total);
+  };
+
+  const read = async (): Promise<Archive | null> => {
+    if (await startsWithBytes(file, [0x50, 0x4b])) {
+      await readZip(file, onEntry);
+    } else if (await startsWithBytes(file, [0x1f, 0x8b])) {
+      await readTar(await inflate(file, 'gzip'), onEntry);
+    } else {
+      await readTar(file, onEntry);
+    }
+    if (cancelled) return null;
+    onProgress('scanning', entries.length, entries.length);
+    return { name: archiveBaseName(file.name), entries: keepEmptyFolders(entries) };
+  };
+
+  const promise = read().catch(error => {
+    if (cancelled) return null;
+    throw error;
+  });
+  return {
+    promise,
+    cancel: () => {
+      cancelled = true;
+    },
+  };
+};
+
+// The top-level folders of an archive, any of which can be the project root
+export const archiveRootFolders = (archive: Archive): string[] => {
+  const folders = new Set<string>();
+  archive.entries.forEach(({ path, type }) => {
+    const slash = path.indexOf('/');
+    if (slash > 0) folders.add(path.slice(0, slash));
+    else if (type === 'directory') folders.add(path);
+  });
+  return [...folders].sort();
+};
+
+// The root used when an archive is opened: the folder holding everything, as
+// in most release archives, or else the whole archive (null)
+export const defaultArchiveRoot = (archive: Archive): string | null => {
+  const folders = archiveRootFolders(archive);
+  const hasTopLevelFiles = archive.entries.some(({ path, type }) => !path.includes('/') && type !== 'directory');
+  return folders.length === 1 && !hasTopLevelFiles ? folders[0] : null;
+};
+
+// The files under the chosen root folder, or the whole archive when null, with
+// paths starting at the root folder name like those of a picked folder
+export const archiveEntries = (archive: Archive, root: string | null): SourceEntry[] => {
+  if (root === null) {
+    return archive.entries.map(entry => ({ ...entry, path: `${archive.name}/${entry.path}` }));
+  }
+  return archive.entries.filter(entry => entry.path.startsWith(`${root}/`));
+};
+
+// Writing
+
+// CRC-32 as used by ZIP, one table entry per byte value
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// The date and time of a ZIP entry, in the MS-DOS format with two-second steps
+const dosDateTime = (date: Date): { time: number; date: number } => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+// Pack text files into a ZIP archive. The files are small, so they are
+// stored without compression.
+export const createZip = (files: { path: string; content: string }[], date = new Date()): Blob => {
+  const encoder = new TextEncoder();
+  const stamp = dosDateTime(date);
+  const parts: Uint8Array[] = [];
+  const directory: Uint8Array[] = [];
+  let offset = 0;
+
+  files.forEach(({ path, content }) => {
+    const name = encoder.encode(path);
+    const data = encoder.encode(content);
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, ZIP_LOCAL_HEADER, true);
+    local.setUint16(4, 20, true);
+    // Names are UTF-8
+    local.setUint16(6, 0x0800, true);
+    local.setUint16(10, stamp.time, true);
+    local.setUint16(12, stamp.date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    parts.push(new Uint8Array(local.buffer), name, data);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, ZIP_CENTRAL_HEADER, true);
+    central.setUint16(4, 20, true);
+    central.setUint16(6, 20, true);
+    central.setUint16(8, 0x0800, true);
+    central.setUint16(12, stamp.time, true);
+    central.setUint16(14, stamp.date, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, data.length, true);
+    central.setUint32(24, data.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+    directory.push(new Uint8Array(central.buffer), name);
+
+    offset += 30 + name.length + data.length;
+  });
+
+  const directorySize = directory.reduce((size, part) => size + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, ZIP_END, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, directorySize, true);
+  end.setUint32(16, offset, true);
+  return new Blob([...parts, ...directory, new Uint8Array(end.buffer)], { type: 'application/zip' });
+};
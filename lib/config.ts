@@ -0,0 +1,295 @@
+// The `.folder-readme.json` config a project can commit, so everyone who
+// generates its README gets the same output. Keys mirror the settings, except
+// that rules are plain glob strings and the template can name a preset.
+
+import { createRule, RULE_KIND_LABELS, validateRule, type PatternRule, type RuleKind } from './rules';
+import { DIRECTORY_STYLE_LABELS, OUTPUT_STYLE_LABELS } from './render';
+import type { GenerationSettings } from './settings';
+import { SORT_MODE_LABELS } from './sort';
+import { DEFAULT_TEMPLATE, TEMPLATE_PRESETS, validateTemplate, type TemplatePresetId } from './template';
+
+export const CONFIG_FILE_NAMES = ['.folder-readme.json', '.folder-readmerc'];
+
+// A rule is a glob pattern string, or an object naming its kind, such as
+// { "name": "node_modules" } or { "path": "build" }
+export type ConfigRule = string | { name: string } | { path: string } | { pattern: string };
+
+export interface ProjectConfig {
+  include?: ConfigRule[];
+  exclude?: ConfigRule[];
+  respectGitignore?: boolean;
+  useExtraIgnoreFiles?: boolean;
+  sortMode?: GenerationSettings['sortMode'];
+  directoriesFirst?: boolean;
+  caseSensitive?: boolean;
+  outputStyle?: GenerationSettings['outputStyle'];
+  directoryStyle?: GenerationSettings['directoryStyle'];
+  maxDepth?: number;
+  collapseThreshold?: number;
+  foldSingleChildDirs?: boolean;
+  manualExclusions?: string[];
+  annotations?: Record<string, string>;
+  showSizes?: boolean;
+  showDirectoryTotals?: boolean;
+  includeStatsSummary?: boolean;
+  countLines?: boolean;
+  // Template text, or the name of a built-in preset
+  template?: string | { preset: TemplatePresetId };
+  includeFooter?: boolean;
+  // File name of the generated README
+  output?: string;
+}
+
+// A problem in the config, pointing at the key it was found at
+export interface ConfigIssue {
+  path: string;
+  reason: string;
+}
+
+export class ConfigError extends Error {
+  issues: ConfigIssue[];
+
+  constructor(fileName: string, issues: ConfigIssue[]) {
+    super(`${fileName} has ${issues.length === 1 ? 'a problem' : `${issues.length} problems`}:\n`
+      + issues.map(({ path, reason }) => `${path || '(root)'}: ${reason}`).join('\n'));
+    this.name = 'ConfigError';
+    this.issues = issues;
+  }
+}
+
+type KeyCheck = (value: unknown, path: string, issues: ConfigIssue[]) => boolean;
+
+// Write a key path the way it would be looked up in JavaScript
+const childPath = (path: string, key: string | number): string => {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  if (/^[A-Za-z_$][\w$]*$/.test(key)) return path ? `${path}.${key}` : key;
+  return `${path}[${JSON.stringify(key)}]`;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const check = (ok: boolean, path: string, reason: string, issues: ConfigIssue[]): boolean => {
+  if (!ok) issues.push({ path, reason });
+  return ok;
+};
+
+const isBoolean: KeyCheck = (value, path, issues) => {
+  return check(typeof value === 'boolean', path, 'must be true or false', issues);
+};
+
+const isCount: KeyCheck = (value, path, issues) => {
+  return check(
+    typeof value === 'number' && Number.isInteger(value) && value >= 0,
+    path,
+    'must be a whole number, 0 or more',
+    issues
+  );
+};
+
+const oneOf = (allowed: string[]): KeyCheck => (value, path, issues) => {
+  return check(
+    typeof value === 'string' && allowed.includes(value),
+    path,
+    `must be one of ${allowed.map(option => JSON.stringify(option)).join(', ')}`,
+    issues
+  );
+};
+
+const isStringList = (checkItem?: (item: string) => string | null): KeyCheck => (value, path, issues) => {
+  if (!check(Array.isArray(value), path, 'must be a list of strings', issues)) return false;
+  let ok = true;
+  (value as unknown[]).forEach((item, index) => {
+    const itemPath = childPath(path, index);
+    if (!check(typeof item === 'string', itemPath, 'must be a string', issues)) {
+      ok = false;
+      return;
+    }
+    const error = checkItem ? checkItem(item as string) : null;
+    if (error) ok = check(false, itemPath, error, issues);
+  });
+  return ok;
+};
+
+const RULE_KINDS = Object.keys(RULE_KIND_LABELS) as RuleKind[];
+
+const isRuleList: KeyCheck = (value, path, issues) => {
+  if (!check(Array.isArray(value), path, 'must be a list of rules', issues)) return false;
+  let ok = true;
+  (value as unknown[]).forEach((item, index) => {
+    const itemPath = childPath(path, index);
+    const keys = isRecord(item) ? Object.keys(item) : [];
+    const isKindObject = keys.length === 1 && RULE_KINDS.includes(keys[0] as RuleKind);
+    if (typeof item !== 'string' && !isKindObject) {
+      ok = check(
+        false,
+        itemPath,
+        `must be a pattern string, or an object with one of ${RULE_KINDS.map(kind => `"${kind}"`).join(', ')}`,
+        issues
+      );
+      return;
+    }
+    const [kind, pattern] = typeof item === 'string' ? ['pattern', item] : [keys[0], (item as Record<string, unknown>)[keys[0]]];
+    const rulePath = typeof item === 'string' ? itemPath : childPath(itemPath, kind);
+    if (!check(typeof pattern === 'string', rulePath, 'must be a string', issues)) {
+      ok = false;
+      return;
+    }
+    const error = validateRule(pattern as string, kind as RuleKind);
+    if (error) ok = check(false, rulePath, error, issues);
+  });
+  return ok;
+};
+
+const toRule = (rule: ConfigRule): PatternRule => {
+  if (typeof rule === 'string') return createRule(rule);
+  const kind = Object.keys(rule)[0] as RuleKind;
+  return createRule((rule as Record<RuleKind, string>)[kind], true, kind);
+};
+
+const fromRule = ({ kind, pattern }: PatternRule): ConfigRule => {
+  return kind === 'pattern' ? pattern : ({ [kind]: pattern } as ConfigRule);
+};
+
+const isAnnotations: KeyCheck = (value, path, issues) => {
+  if (!check(isRecord(value), path, 'must be an object of path: description pairs', issues)) return false;
+  let ok = true;
+  Object.entries(value as Record<string, unknown>).forEach(([key, text]) => {
+    if (!check(typeof text === 'string', childPath(path, key), 'must be a string', issues)) ok = false;
+  });
+  return ok;
+};
+
+const isTemplate: KeyCheck = (value, path, issues) => {
+  if (typeof value === 'string') {
+    const error = validateTemplate(value);
+    return check(error === null, path, error || '', issues);
+  }
+  if (!check(isRecord(value), path, 'must be template text or { "preset": name }', issues)) return false;
+  const record = value as Record<string, unknown>;
+  const extra = Object.keys(record).filter(key => key !== 'preset');
+  extra.forEach(key => issues.push({ path: childPath(path, key), reason: 'unknown key' }));
+  return oneOf(Object.keys(TEMPLATE_PRESETS))(record.preset, childPath(path, 'preset'), issues) && extra.length === 0;
+};
+
+const isFileName: KeyCheck = (value, path, issues) => {
+  return check(
+    typeof value === 'string' && value.trim() !== '' && !/[\\/]/.test(value),
+    path,
+    'must be a file name without folders',
+    issues
+  );
+};
+
+const CONFIG_KEYS: Record<keyof ProjectConfig, KeyCheck> = {
+  include: isRuleList,
+  exclude: isRuleList,
+  respectGitignore: isBoolean,
+  useExtraIgnoreFiles: isBoolean,
+  sortMode: oneOf(Object.keys(SORT_MODE_LABELS)),
+  directoriesFirst: isBoolean,
+  caseSensitive: isBoolean,
+  outputStyle: oneOf(Object.keys(OUTPUT_STYLE_LABELS)),
+  directoryStyle: oneOf(Object.keys(DIRECTORY_STYLE_LABELS)),
+  maxDepth: isCount,
+  collapseThreshold: isCount,
+  foldSingleChildDirs: isBoolean,
+  manualExclusions: isStringList(),
+  annotations: isAnnotations,
+  showSizes: isBoolean,
+  showDirectoryTotals: isBoolean,
+  includeStatsSummary: isBoolean,
+  countLines: isBoolean,
+  template: isTemplate,
+  includeFooter: isBoolean,
+  output: isFileName,
+};
+
+// Find the config file at the root of the project
+export const findConfigPath = (paths: string[], rootFolder: string): string | null => {
+  for (const name of CONFIG_FILE_NAMES) {
+    const path = `${rootFolder}/${name}`;
+    if (paths.includes(path)) return path;
+  }
+  return null;
+};
+
+// Parse and check a config file. Throws a ConfigError listing every problem.
+export const parseConfig = (text: string, fileName: string): ProjectConfig => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new ConfigError(fileName, [{ path: '', reason: `is not valid JSON (${(error as Error).message})` }]);
+  }
+  const issues: ConfigIssue[] = [];
+  if (!check(isRecord(parsed), '', 'must be a JSON object', issues)) throw new ConfigError(fileName, issues);
+  const record = parsed as Record<string, unknown>;
+  const config: Record<string, unknown> = {};
+  Object.keys(record).forEach(key => {
+    // Editors use $schema for completion; it is not a setting
+    if (key === '$schema') return;
+    if (Object.prototype.hasOwnProperty.call(CONFIG_KEYS, key)) {
+      CONFIG_KEYS[key as keyof ProjectConfig](record[key], childPath('', key), issues);
+      config[key] = record[key];
+    } else {
+      issues.push({ path: childPath('', key), reason: 'unknown key' });
+    }
+  });
+  if (issues.length > 0) throw new ConfigError(fileName, issues);
+  return config as ProjectConfig;
+};
+
+// Apply a checked config on top of the current settings
+export const applyConfig = (settings: GenerationSettings, config: ProjectConfig): GenerationSettings => {
+  const { include, exclude, template, output, ...rest } = config;
+  const next: GenerationSettings = { ...settings, ...rest };
+  if (include) next.includeRules = include.map(toRule);
+  if (exclude) next.excludeRules = exclude.map(toRule);
+  if (template !== undefined) {
+    next.template = typeof template === 'string' ? template : TEMPLATE_PRESETS[template.preset].template;
+  }
+  if (output !== undefined) next.outputFileName = output;
+  return next;
+};
+
+// Turn the current settings into a config file. Disabled rules are left
+// out, and so are empty lists and the default template.
+export const settingsToConfig = (settings: GenerationSettings): ProjectConfig => {
+  const presetId = (Object.keys(TEMPLATE_PRESETS) as TemplatePresetId[])
+    .find(id => TEMPLATE_PRESETS[id].template === settings.template);
+  const config: ProjectConfig = {
+    include: settings.includeRules.filter(rule => rule.enabled).map(fromRule),
+    exclude: settings.excludeRules.filter(rule => rule.enabled).map(fromRule),
+    respectGitignore: settings.respectGitignore,
+    useExtraIgnoreFiles: settings.useExtraIgnoreFiles,
+    sortMode: settings.sortMode,
+    directoriesFirst: settings.directoriesFirst,
+    caseSensitive: settings.caseSensitive,
+    outputStyle: settings.outputStyle,
+    directoryStyle: settings.directoryStyle,
+    maxDepth: settings.maxDepth,
+    collapseThreshold: settings.collapseThreshold,
+    foldSingleChildDirs: settings.foldSingleChildDirs,
+    manualExclusions: settings.manualExclusions,
+    annotations: settings.annotations,
+    showSizes: settings.showSizes,
+    showDirectoryTotals: settings.showDirectoryTotals,
+    includeStatsSummary: settings.includeStatsSummary,
+    countLines: settings.countLines,
+    template: settings.template === DEFAULT_TEMPLATE
+      ? undefined
+      : presetId ? { preset: presetId } : settings.template,
+    includeFooter: settings.includeFooter,
+    output: settings.outputFileName || undefined,
+  };
+  if (config.include?.length === 0) delete config.include;
+  if (config.manualExclusions?.length === 0) delete config.manualExclusions;
+  if (Object.keys(config.annotations || {}).length === 0) delete config.annotations;
+  return config;
+};
+
+export const formatConfig = (config: ProjectConfig): string => {
+  return JSON.stringify(config, null, 2) + '\n';
+};
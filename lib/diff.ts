@@ -0,0 +1,153 @@
+// Line-based diff, used to show how a README changes before it is written
+
+export type DiffOp = 'equal' | 'add' | 'remove';
+
+export interface DiffLine {
+  op: DiffOp;
+  text: string;
+  // 1-based line numbers in the old and new text; 0 when the line is not there
+  oldLine: number;
+  newLine: number;
+}
+
+// Above this many cells the middle section is shown as a plain replacement
+// instead of running the quadratic LCS table
+const MAX_LCS_CELLS = 4000000;
+
+const splitLines = (text: string): string[] => {
+  if (text === '') return [];
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+};
+
+// Diff the middle section, where the common prefix and suffix are trimmed off
+const diffMiddle = (a: string[], b: string[]): DiffOp[] => {
+  if (a.length * b.length > MAX_LCS_CELLS) {
+    return [...a.map((): DiffOp => 'remove'), ...b.map((): DiffOp => 'add')];
+  }
+  // lengths[i][j] is the LCS length of a[i:] and b[j:]
+  const lengths: Uint32Array[] = [];
+  for (let i = 0; i <= a.length; i++) lengths.push(new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push('equal');
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      ops.push('remove');
+      i++;
+    } else {
+      ops.push('add');
+      j++;
+    }
+  }
+  while (i++ < a.length) ops.push('remove');
+  while (j++ < b.length) ops.push('add');
+  return ops;
+};
+
+// Compare two texts line by line
+export const diffLines = (oldText: string, newText: string): DiffLine[] => {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const ops: DiffOp[] = [
+    ...Array<DiffOp>(prefix).fill('equal'),
+    ...diffMiddle(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix)),
+    ...Array<DiffOp>(suffix).fill('equal'),
+  ];
+
+  const result: DiffLine[] = [];
+  let oldLine = 0;
+  let newLine = 0;
+  ops.forEach(op => {
+    if (op === 'equal') {
+      oldLine++;
+      newLine++;
+      result.push({ op, text: a[oldLine - 1], oldLine, newLine });
+    } else if (op === 'remove') {
+      oldLine++;
+      result.push({ op, text: a[oldLine - 1], oldLine, newLine: 0 });
+    } else {
+      newLine++;
+      result.push({ op, text: b[newLine - 1], oldLine: 0, newLine });
+    }
+  });
+  return result;
+};
+
+export const hasChanges = (lines: DiffLine[]): boolean => {
+  return lines.some(line => line.op !== 'equal');
+};
+
+// Format a diff in the unified format used by `diff -u` and git
+export const formatUnifiedDiff = (
+  lines: DiffLine[],
+  oldLabel: string,
+  newLabel: string,
+  context = 3
+): string => {
+  if (!hasChanges(lines)) return '';
+  const output = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+  let index = 0;
+  while (index < lines.length) {
+    // Find the next change and the hunk around it
+    while (index < lines.length && lines[index].op === 'equal') index++;
+    if (index >= lines.length) break;
+    const start = Math.max(0, index - context);
+    let end = index;
+    let equalRun = 0;
+    while (end < lines.length && equalRun <= context * 2) {
+      equalRun = lines[end].op === 'equal' ? equalRun + 1 : 0;
+      end++;
+    }
+    end = Math.min(lines.length, end - Math.max(0, equalRun - context));
+    const hunk = lines.slice(start, end);
+
+    let oldStart = 0;
+    let newStart = 0;
+    let oldCount = 0;
+    let newCount = 0;
+    hunk.forEach(line => {
+      if (line.op !== 'add') {
+        oldCount++;
+        if (!oldStart) oldStart = line.oldLine;
+      }
+      if (line.op !== 'remove') {
+        newCount++;
+        if (!newStart) newStart = line.newLine;
+      }
+    });
+    // An empty side starts at the line before the hunk, as diff -u does
+    if (!oldStart) oldStart = start > 0 ? lines[start - 1].oldLine : 0;
+    if (!newStart) newStart = start > 0 ? lines[start - 1].newLine : 0;
+
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    hunk.forEach(line => {
+      output.push((line.op === 'add' ? '+' : line.op === 'remove' ? '-' : ' ') + line.text);
+    });
+    index = end;
+  }
+  return output.join('\n') + '\n';
+};
@@ -0,0 +1,144 @@
+// Folders opened through the File System Access API or dropped onto the page.
+// Both can be walked again later, unlike the files of an <input webkitdirectory>.
+
+import type { ProgressCallback, ProjectScan, SourceEntry } from './jobs';
+import { readManifests } from './overview';
+import type { GenerationSettings } from './settings';
+import { walkProject, type WalkDirectory, type WalkFile } from './walk';
+import type { WorkerJob } from './worker-client';
+
+interface BrowserFile extends WalkFile {
+  getFile: () => Promise<File>;
+}
+
+export type BrowserDirectory = WalkDirectory<BrowserFile>;
+
+// Not in TypeScript's DOM types yet
+declare global {
+  interface Window {
+    showDirectoryPicker?: (options?: { mode?: 'read' | 'readwrite' }) => Promise<FileSystemDirectoryHandle>;
+  }
+  interface DataTransferItem {
+    getAsFileSystemHandle?: () => Promise<FileSystemHandle | null>;
+  }
+}
+
+const fromFileHandle = (handle: FileSystemFileHandle): BrowserFile => ({
+  name: handle.name,
+  getFile: () => handle.getFile(),
+  text: async () => (await handle.getFile()).text(),
+});
+
+export const fromDirectoryHandle = (handle: FileSystemDirectoryHandle): BrowserDirectory => ({
+  name: handle.name,
+  list: async () => {
+    const items: (BrowserFile | BrowserDirectory)[] = [];
+    for await (const child of handle.values()) {
+      items.push(
+        child.kind === 'directory'
+          ? fromDirectoryHandle(child as FileSystemDirectoryHandle)
+          : fromFileHandle(child as FileSystemFileHandle)
+      );
+    }
+    return items;
+  },
+});
+
+const entryFile = (entry: FileSystemFileEntry): Promise<File> => {
+  return new Promise((resolve, reject) => entry.file(resolve, reject));
+};
+
+// A directory reader returns its entries in batches until one comes back empty
+const readAllEntries = async (entry: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> => {
+  const reader = entry.createReader();
+  const entries: FileSystemEntry[] = [];
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+};
+
+export const fromDirectoryEntry = (entry: FileSystemDirectoryEntry): BrowserDirectory => ({
+  name: entry.name,
+  list: async () => {
+    return (await readAllEntries(entry)).map(child => {
+      if (child.isDirectory) return fromDirectoryEntry(child as FileSystemDirectoryEntry);
+      const fileEntry = child as FileSystemFileEntry;
+      return {
+        name: child.name,
+        getFile: () => entryFile(fileEntry),
+        text: async () => (await entryFile(fileEntry)).text(),
+      };
+    });
+  },
+});
+
+export const supportsDirectoryPicker = (): boolean => {
+  return typeof window !== 'undefined' && typeof window.showDirectoryPicker === 'function';
+};
+
+// Ask for a folder. Resolves null when the picker is dismissed.
+export const pickDirectory = async (): Promise<BrowserDirectory | null> => {
+  try {
+    return fromDirectoryHandle(await window.showDirectoryPicker!({ mode: 'read' }));
+  } catch (error) {
+    if ((error as DOMException).name === 'AbortError') return null;
+    throw error;
+  }
+};
+
+// Get the folder dropped onto the page, preferring a File System Access
+// handle. Returns null when no folder was dropped. Must be called before the
+// drop event handler returns, as the items are cleared afterwards.
+export const getDroppedDirectory = (dataTransfer: DataTransfer): Promise<BrowserDirectory | null> => {
+  const items = Array.from(dataTransfer.items).filter(item => item.kind === 'file');
+  const handles = items.map(item => (item.getAsFileSystemHandle ? item.getAsFileSystemHandle() : null));
+  const entries = items.map(item => item.webkitGetAsEntry());
+  return (async () => {
+    for (let i = 0; i < items.length; i++) {
+      const handle = await handles[i]?.catch(() => null);
+      if (handle && handle.kind === 'directory') return fromDirectoryHandle(handle as FileSystemDirectoryHandle);
+      const entry = entries[i];
+      if (entry && entry.isDirectory) return fromDirectoryEntry(entry as FileSystemDirectoryEntry);
+    }
+    return null;
+  })();
+};
+
+// Walk a folder into a scan on the page, skipping what the settings exclude.
+// The total is not known up front, so progress reports the files found so far
+// with a total of 0. Cancelling stops the walk at the next file.
+export const startDirectoryScan = (
+  root: BrowserDirectory,
+  settings: GenerationSettings,
+  onProgress: ProgressCallback
+): WorkerJob<ProjectScan> => {
+  let cancelled = false;
+  const entries: SourceEntry[] = [];
+  const walk = walkProject(root, settings, async (path, file) => {
+    if (cancelled) throw new DOMException('The scan was cancelled', 'AbortError');
+    entries.push({ path, file: await file.getFile() });
+    if (entries.length % 100 === 0) onProgress('scanning', entries.length, 0);
+  });
+  const promise = walk.then(
+    async ({ rootFolder, ignoreFiles, treeEntries }): Promise<ProjectScan | null> => {
+      if (cancelled) return null;
+      const files = entries.flatMap(({ path, file }) => (file ? [{ path, text: () => file.text() }] : []));
+      const manifests = await readManifests(files, rootFolder);
+      entries.push(...treeEntries);
+      onProgress('scanning', entries.length, 0);
+      return { rootFolder, entries, ignoreFiles, manifests };
+    },
+    error => {
+      if (cancelled) return null;
+      throw error;
+    }
+  );
+  return {
+    promise,
+    cancel: () => {
+      cancelled = true;
+    },
+  };
+};
@@ -0,0 +1,16 @@
+// Save a generated file through a temporary download link
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = window.URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  window.URL.revokeObjectURL(url);
+};
+
+// Save generated text as a file
+export const downloadText = (content: string, fileName: string, type = "text/markdown;charset=utf-8") => {
+  downloadBlob(new Blob([content], { type }), fileName);
+};
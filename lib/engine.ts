@@ -0,0 +1,231 @@
+// The tree engine shared by the web app and the CLI. It only deals with paths,
+// ignore file contents and file stats; reading them is up to the caller, so
+// the same inputs and settings always give the same output.
+
+import { createIgnoreMatcher, isIgnoreFile, type IgnoreFile } from './gitignore';
+import { countFiles } from './limits';
+import { readOverview, renderOverview, type Manifest } from './overview';
+import { formatStructureBlock, renderStructure, visibleTree, type OutputStyle, type RenderOptions } from './render';
+import { createRuleFilter, RULE_KIND_LABELS, type RuleKind } from './rules';
+import { pickRenderOptions, type GenerationSettings } from './settings';
+import { formatStatsSummary, summarizeByLanguage, type FileStats } from './stats';
+import { formatDate, GENERATED_WITH_URL, renderTemplate } from './template';
+import { buildTree, type FileTree, type TreeEntry } from './tree';
+
+export interface RenderedStructure {
+  structure: string;
+  // Markdown table of totals by language
+  summary: string;
+  // Files left after manual exclusions
+  fileCount: number;
+}
+
+export interface EngineInput {
+  rootFolder: string;
+  // File paths, each starting with the root folder name
+  paths: string[];
+  // Every .gitignore, .ignore and .dockerignore in the project, with its content
+  ignoreFiles: IgnoreFile[];
+  // Empty folders and symlinks, when the source can list them
+  treeEntries?: TreeEntry[];
+  // Sizes and line counts, keyed by path relative to the root folder
+  fileStats?: Record<string, FileStats>;
+  // The manifests at the root of the project, for the overview
+  manifests?: Manifest[];
+}
+
+export interface EngineOutput extends RenderedStructure {
+  tree: FileTree;
+  // Structure wrapped for Markdown, as placed between the README markers
+  block: string;
+  // The whole templated README
+  readme: string;
+}
+
+// Why a path was left out
+export type ExclusionReason =
+  | { type: 'exclude-rule'; ruleId: string; kind: RuleKind; pattern: string }
+  | { type: 'not-included' }
+  | { type: 'ignore-file'; file: string; line: number; pattern: string };
+
+export interface Exclusion {
+  // Relative to the root folder; a folder stands for everything dropped below it
+  path: string;
+  reason: ExclusionReason;
+  // Number of dropped entries it covers
+  count: number;
+}
+
+// Decide which files to keep, from the ignore files and the include and
+// exclude rules. Paths start with the root folder name.
+export const createPathFilter = (rootFolder: string, ignoreFiles: IgnoreFile[], settings: GenerationSettings) => {
+  const ignoreMatcher = createIgnoreMatcher(
+    settings.respectGitignore
+      ? ignoreFiles.filter(({ path }) => isIgnoreFile(path, settings.useExtraIgnoreFiles))
+      : []
+  );
+  const ruleFilter = createRuleFilter(settings.includeRules, settings.excludeRules);
+  // Rules are written relative to the project root
+  const toProjectPath = (path: string) => path.slice(rootFolder.length + 1);
+
+  const isKept = (path: string): boolean => {
+    return !ruleFilter.isExcluded(toProjectPath(path)) && !ignoreMatcher.isIgnored(path);
+  };
+
+  // Empty folders are matched as folders, so patterns like `build/` hide them
+  const isEntryKept = (entry: TreeEntry): boolean => {
+    if (entry.type !== 'directory') return isKept(entry.path);
+    return !ruleFilter.isExcluded(toProjectPath(entry.path), true) && !ignoreMatcher.isIgnored(entry.path, true);
+  };
+
+  // Whether nothing below a folder can be kept, so a walk can skip it
+  const isDirSkipped = (dirPath: string): boolean => {
+    return ruleFilter.isDirExcluded(toProjectPath(dirPath)) || ignoreMatcher.isDirIgnored(dirPath);
+  };
+
+  // Tell why a path is left out, or null when it is kept
+  const explain = (path: string, isDir = false): { matchedPath: string; reason: ExclusionReason } | null => {
+    const excluded = ruleFilter.explain(toProjectPath(path), isDir);
+    if (excluded) {
+      const { rule, matchedPath } = excluded;
+      return {
+        matchedPath,
+        reason: rule
+          ? { type: 'exclude-rule', ruleId: rule.id, kind: rule.kind, pattern: rule.pattern }
+          : { type: 'not-included' },
+      };
+    }
+    const ignored = ignoreMatcher.explain(path, isDir);
+    if (!ignored) return null;
+    return {
+      matchedPath: toProjectPath(ignored.matchedPath),
+      reason: { type: 'ignore-file', file: toProjectPath(ignored.file), line: ignored.line, pattern: ignored.pattern },
+    };
+  };
+
+  return { isKept, isEntryKept, isDirSkipped, explain, matchCounts: ruleFilter.matchCounts };
+};
+
+export type PathFilter = ReturnType<typeof createPathFilter>;
+
+// Group the dropped paths by the folder or file a reason applies to
+export const explainExclusions = (filter: PathFilter, dropped: { path: string; isDir: boolean }[]): Exclusion[] => {
+  const byPath = new Map<string, Exclusion>();
+  dropped.forEach(({ path, isDir }) => {
+    const explained = filter.explain(path, isDir);
+    if (!explained) return;
+    const existing = byPath.get(explained.matchedPath);
+    if (existing) {
+      existing.count += 1;
+    } else {
+      byPath.set(explained.matchedPath, { path: explained.matchedPath, reason: explained.reason, count: 1 });
+    }
+  });
+  return [...byPath.values()].sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+};
+
+// Describe a reason for the list of excluded paths
+export const describeExclusion = (reason: ExclusionReason): string => {
+  switch (reason.type) {
+    case 'exclude-rule':
+      return `${RULE_KIND_LABELS[reason.kind]} rule ${reason.pattern}`;
+    case 'not-included':
+      return "Not picked by any include rule";
+    case 'ignore-file':
+      return `${reason.file}:${reason.line} ${reason.pattern}`;
+  }
+};
+
+// Render a built tree in the chosen output style, with its language summary
+export const renderTreeStructure = (
+  tree: FileTree,
+  rootFolder: string,
+  options: RenderOptions,
+  fileStats: Record<string, FileStats>,
+  collapsedPaths: string[] = []
+): RenderedStructure => {
+  const structure = renderStructure(tree, rootFolder, options, fileStats, collapsedPaths);
+  const hasLineCounts = Object.values(fileStats).some(stats => stats.lines !== undefined);
+  const visible = visibleTree(tree, rootFolder, options);
+  const summary = formatStatsSummary(summarizeByLanguage(visible, fileStats), hasLineCounts);
+  return { structure, summary, fileCount: countFiles(visible) };
+};
+
+// A package of a workspace, with its structure shown below the overview tree
+export interface PackageSection {
+  title: string;
+  structure: string;
+}
+
+export interface ReadmeContent {
+  rootFolder: string;
+  structure: string;
+  style: OutputStyle;
+  fileCount: number;
+  // Language table, or empty when statistics are not included
+  stats: string;
+  // Sections from the project's manifests, or empty when there is no overview
+  overview: string;
+  // One per package of a workspace; empty for a single project
+  packages: PackageSection[];
+}
+
+// Fill the README template around a rendered structure
+export const renderReadme = (
+  content: ReadmeContent,
+  settings: Pick<GenerationSettings, 'template' | 'includeFooter'>,
+  date = new Date()
+): string => {
+  return renderTemplate(settings.template, {
+    projectName: content.rootFolder,
+    tree: [
+      formatStructureBlock(content.structure, content.style),
+      ...content.packages.map(pkg => `### ${pkg.title}\n\n${formatStructureBlock(pkg.structure, content.style)}`),
+    ].join('\n\n'),
+    fileCount: content.fileCount,
+    date: formatDate(date),
+    stats: content.stats,
+    overview: content.overview,
+    footer: settings.includeFooter ? GENERATED_WITH_URL : "",
+  });
+};
+
+// The name the README is saved under
+export const readmeFileName = (settings: GenerationSettings, rootFolder: string): string => {
+  return settings.outputFileName || `${rootFolder}.md`;
+};
+
+// Run the whole pipeline: filter the paths, build the tree and render it
+export const generateStructure = (input: EngineInput, settings: GenerationSettings, date = new Date()): EngineOutput => {
+  const { rootFolder, paths, ignoreFiles, treeEntries = [], fileStats = {}, manifests = [] } = input;
+  const filter = createPathFilter(rootFolder, ignoreFiles, settings);
+  const kept = paths.filter(filter.isKept);
+  const keptStats: Record<string, FileStats> = {};
+  kept.forEach(path => {
+    const projectPath = path.slice(rootFolder.length + 1);
+    keptStats[projectPath] = fileStats[projectPath] || {};
+  });
+
+  const tree = buildTree(kept, treeEntries.filter(filter.isEntryKept));
+  const options = pickRenderOptions(settings);
+  const rendered = renderTreeStructure(tree, rootFolder, options, keptStats);
+  const readme = renderReadme(
+    {
+      rootFolder,
+      structure: rendered.structure,
+      style: options.outputStyle,
+      fileCount: rendered.fileCount,
+      stats: options.includeStatsSummary ? rendered.summary : "",
+      overview: renderOverview(readOverview(manifests, paths, rootFolder).sections),
+      packages: [],
+    },
+    settings,
+    date
+  );
+  return {
+    ...rendered,
+    tree,
+    block: formatStructureBlock(rendered.structure, options.outputStyle),
+    readme,
+  };
+};
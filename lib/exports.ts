@@ -0,0 +1,236 @@
+// The structure as data for other tools: nested JSON or YAML, a flat CSV,
+// and Mermaid diagrams that GitHub renders inline. Data formats hold every
+// visible path; diagrams are shrunk by the depth and collapse limits like
+// the text tree, since a diagram of thousands of nodes is unreadable.
+
+import { limitTree } from './limits';
+import { visibleTree, type RenderOptions } from './render';
+import { rollUpStats, type FileStats } from './stats';
+import { isDirectory, sortedKeys, type FileTree, type NodeType } from './tree';
+
+export type ExportFormat = 'json' | 'yaml' | 'csv' | 'mermaid-graph' | 'mermaid-mindmap';
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  json: "JSON (nested)",
+  yaml: "YAML (nested)",
+  csv: "CSV (one row per path)",
+  'mermaid-graph': "Mermaid flowchart (graph TD)",
+  'mermaid-mindmap': "Mermaid mindmap",
+};
+
+const EXPORT_FILES: Record<ExportFormat, { extension: string; type: string }> = {
+  json: { extension: 'json', type: 'application/json' },
+  yaml: { extension: 'yaml', type: 'application/yaml' },
+  csv: { extension: 'csv', type: 'text/csv;charset=utf-8' },
+  'mermaid-graph': { extension: 'mmd', type: 'text/plain;charset=utf-8' },
+  'mermaid-mindmap': { extension: 'mmd', type: 'text/plain;charset=utf-8' },
+};
+
+export const isMermaidFormat = (format: ExportFormat): boolean => {
+  return format === 'mermaid-graph' || format === 'mermaid-mindmap';
+};
+
+// A Mermaid diagram wrapped for a Markdown document, where GitHub draws it
+export const formatMermaidBlock = (diagram: string): string => {
+  return '```mermaid\n' + diagram + '\n```\n';
+};
+
+// The file name for an export. A Mermaid diagram in a fenced block is Markdown.
+export const exportFileName = (rootFolder: string, format: ExportFormat, fenced = false): string => {
+  const extension = fenced && isMermaidFormat(format) ? 'md' : EXPORT_FILES[format].extension;
+  return `${rootFolder}-structure.${extension}`;
+};
+
+export const exportMimeType = (format: ExportFormat, fenced = false): string => {
+  return fenced && isMermaidFormat(format) ? 'text/markdown;charset=utf-8' : EXPORT_FILES[format].type;
+};
+
+// One entry of the nested JSON and YAML exports
+export interface ExportNode {
+  name: string;
+  // Relative to the root folder; empty for the root itself
+  path: string;
+  type: NodeType;
+  // Bytes; rolled up for folders
+  size?: number;
+  // Only when lines were counted; rolled up for folders
+  lines?: number;
+  // Files below a folder
+  files?: number;
+  target?: string;
+  annotation?: string;
+  children?: ExportNode[];
+}
+
+// The visible tree as nested nodes, with the root folder at the top
+export const treeToExportNode = (
+  tree: FileTree,
+  rootFolder: string,
+  options: RenderOptions,
+  fileStats: Record<string, FileStats> = {}
+): ExportNode => {
+  const visible = visibleTree(tree, rootFolder, options);
+  const directoryStats = rollUpStats(visible, fileStats);
+  const hasSizes = Object.values(fileStats).some(stats => stats.size !== undefined);
+  const hasLineCounts = Object.values(fileStats).some(stats => stats.lines !== undefined);
+
+  const toNodes = (node: FileTree, prefix: string): ExportNode[] => {
+    return sortedKeys(node, options).map(key => {
+      const path = prefix + key;
+      const child = node[key];
+      const entry: ExportNode = { name: key, path, type: child.type };
+      if (isDirectory(child)) {
+        const totals = directoryStats.get(path) || { files: 0, size: 0, lines: 0 };
+        if (hasSizes) entry.size = totals.size;
+        if (hasLineCounts) entry.lines = totals.lines;
+        entry.files = totals.files;
+      } else {
+        const stats = fileStats[path];
+        if (stats?.size !== undefined) entry.size = stats.size;
+        if (stats?.lines !== undefined) entry.lines = stats.lines;
+      }
+      if (child.target !== undefined) entry.target = child.target;
+      const annotation = options.annotations[path]?.trim();
+      if (annotation) entry.annotation = annotation;
+      if (isDirectory(child)) entry.children = toNodes(child.children, `${path}/`);
+      return entry;
+    });
+  };
+
+  const children = toNodes(visible, '');
+  const sum = (value: (child: ExportNode) => number) => children.reduce((total, child) => total + value(child), 0);
+  const root: ExportNode = { name: rootFolder, path: '', type: 'directory' };
+  if (hasSizes) root.size = sum(child => child.size || 0);
+  if (hasLineCounts) root.lines = sum(child => child.lines || 0);
+  root.files = sum(child => (child.type === 'directory' ? child.files || 0 : 1));
+  root.children = children;
+  return root;
+};
+
+// Strings that YAML would read as something else, or that need escapes, are
+// written as double-quoted JSON strings, which YAML accepts as they are
+const yamlString = (text: string): string => {
+  const plain =
+    /^[A-Za-z0-9_./][\w ./@+()-]*$/.test(text) &&
+    !/\s$/.test(text) &&
+    !/^(?:true|false|yes|no|on|off|null|~|[-+]?[\d.]+(?:e[-+]?\d+)?|0x[\da-f]+|0o[0-7]+)$/i.test(text);
+  return plain ? text : JSON.stringify(text);
+};
+
+const nodeToYaml = (node: ExportNode, indent: string, lines: string[]) => {
+  const fields: [string, string | number | undefined][] = [
+    ['name', node.name],
+    ['path', node.path],
+    ['type', node.type],
+    ['size', node.size],
+    ['lines', node.lines],
+    ['files', node.files],
+    ['target', node.target],
+    ['annotation', node.annotation],
+  ];
+  let first = true;
+  fields.forEach(([key, value]) => {
+    if (value === undefined) return;
+    // The first field of a list item sits on the dash
+    const lead = first ? `${indent}- ` : `${indent}  `;
+    lines.push(`${lead}${key}: ${typeof value === 'number' ? value : yamlString(value)}`);
+    first = false;
+  });
+  if (!node.children) return;
+  if (node.children.length === 0) {
+    lines.push(`${indent}  children: []`);
+    return;
+  }
+  lines.push(`${indent}  children:`);
+  node.children.forEach(child => nodeToYaml(child, `${indent}  `, lines));
+};
+
+const escapeCsv = (value: string | number | undefined): string => {
+  if (value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per folder, file and symlink below the root, parents first
+const exportNodeToCsv = (root: ExportNode): string => {
+  const rows = [['path', 'type', 'size', 'depth', 'lines', 'annotation'].join(',')];
+  const walk = (nodes: ExportNode[], depth: number) => {
+    nodes.forEach(node => {
+      rows.push(
+        [node.path, node.type, node.size, depth, node.lines, node.annotation].map(escapeCsv).join(',')
+      );
+      if (node.children) walk(node.children, depth + 1);
+    });
+  };
+  walk(root.children || [], 1);
+  return rows.join('\r\n') + '\r\n';
+};
+
+// Mermaid labels go in double quotes, where a quote must be an entity
+const mermaidLabel = (text: string): string => {
+  return `"${text.replace(/"/g, '#quot;')}"`;
+};
+
+// The limited tree as Mermaid, with node ids n0 for the root, n1, n2, ... in
+// display order
+const treeToMermaid = (
+  tree: FileTree,
+  rootFolder: string,
+  options: RenderOptions,
+  format: 'mermaid-graph' | 'mermaid-mindmap'
+): string => {
+  const visible = visibleTree(tree, rootFolder, options);
+  const limited = limitTree(visible, options, new Set(Object.keys(options.annotations)));
+  const label = (name: string, directory: boolean) => mermaidLabel(directory ? `${name}/` : name);
+  let nextId = 1;
+
+  if (format === 'mermaid-mindmap') {
+    const lines = ['mindmap', `  n0((${mermaidLabel(rootFolder)}))`];
+    const walk = (node: FileTree, indent: string) => {
+      sortedKeys(node, options).forEach(key => {
+        const child = node[key];
+        lines.push(`${indent}n${nextId++}[${label(key, isDirectory(child))}]`);
+        walk(child.children, `${indent}  `);
+      });
+    };
+    walk(limited, '    ');
+    return lines.join('\n');
+  }
+
+  const lines = ['graph TD', `  n0[${mermaidLabel(`${rootFolder}/`)}]`];
+  const walk = (node: FileTree, parentId: string) => {
+    sortedKeys(node, options).forEach(key => {
+      const child = node[key];
+      const id = `n${nextId++}`;
+      lines.push(`  ${parentId} --> ${id}[${label(key, isDirectory(child))}]`);
+      walk(child.children, id);
+    });
+  };
+  walk(limited, 'n0');
+  return lines.join('\n');
+};
+
+// Write the structure below the root folder in one of the export formats.
+// Manual exclusions are left out, as in the rendered tree.
+export const exportStructure = (
+  tree: FileTree,
+  rootFolder: string,
+  options: RenderOptions,
+  fileStats: Record<string, FileStats>,
+  format: ExportFormat
+): string => {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(treeToExportNode(tree, rootFolder, options, fileStats), null, 2) + '\n';
+    case 'yaml': {
+      const lines: string[] = [];
+      nodeToYaml(treeToExportNode(tree, rootFolder, options, fileStats), '', lines);
+      // The root is a mapping rather than a list item
+      return lines.map(line => line.slice(2)).join('\n') + '\n';
+    }
+    case 'csv':
+      return exportNodeToCsv(treeToExportNode(tree, rootFolder, options, fileStats));
+    default:
+      return treeToMermaid(tree, rootFolder, options, format) + '\n';
+  }
+};
@@ -0,0 +1,267 @@
+// A small implementation of the gitignore matching rules, so the preview hides
+// exactly what `git status` would hide. See https://git-scm.com/docs/gitignore
+
+export interface IgnoreFile {
+  path: string;
+  content: string;
+}
+
+export interface CompiledPattern {
+  negated: boolean;
+  dirOnly: boolean;
+  regex: RegExp;
+}
+
+export interface IgnoreRule extends CompiledPattern {
+  // Directory the ignore file lives in, with a trailing slash ('' for the top)
+  base: string;
+  // The pattern as written in the file, for display
+  pattern: string;
+  // Line number in the file, starting at 1
+  line: number;
+}
+
+// The ignore file line that hides a path
+export interface IgnoreMatch {
+  file: string;
+  line: number;
+  pattern: string;
+  // The outermost ignored folder, or the path itself
+  matchedPath: string;
+}
+
+export const GITIGNORE_FILE = '.gitignore';
+export const EXTRA_IGNORE_FILES = ['.ignore', '.dockerignore'];
+
+// Get the directory part of a path, with a trailing slash
+export const dirnameOf = (path: string): string => {
+  const index = path.lastIndexOf('/');
+  return index === -1 ? '' : path.slice(0, index + 1);
+};
+
+// Get the last segment of a path
+export const basenameOf = (path: string): string => {
+  return path.slice(path.lastIndexOf('/') + 1);
+};
+
+const escapeRegex = (char: string): string => {
+  return /[\\^$.*+?()[\]{}|/-]/.test(char) ? '\\' + char : char;
+};
+
+// Convert a `[...]` bracket expression starting at `start` into a regex class.
+// Returns null when the bracket is never closed, in which case git matches
+// the `[` literally.
+const convertBracket = (glob: string, start: number): { source: string; end: number } | null => {
+  let i = start + 1;
+  let negated = false;
+  if (glob[i] === '!' || glob[i] === '^') {
+    negated = true;
+    i++;
+  }
+  let body = '';
+  let first = true;
+  for (; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === ']' && !first) {
+      // A character class never matches the path separator
+      return { source: negated ? `[^/${body}]` : `(?!/)[${body}]`, end: i };
+    }
+    if (char === '\\' && i + 1 < glob.length) {
+      body += escapeRegex(glob[++i]);
+    } else if (char === '-' && !first && glob[i + 1] !== ']') {
+      body += '-';
+    } else {
+      body += escapeRegex(char);
+    }
+    first = false;
+  }
+  return null;
+};
+
+// Convert a single gitignore glob (already stripped of `!`, leading and
+// trailing slashes) into the source of an anchored regular expression
+export const globToRegexSource = (glob: string): string => {
+  let source = '';
+  let i = 0;
+  while (i < glob.length) {
+    const char = glob[i];
+    if (char === '*') {
+      let stars = 1;
+      while (glob[i + stars] === '*') stars++;
+      const atSegmentStart = i === 0 || glob[i - 1] === '/';
+      const atSegmentEnd = i + stars === glob.length || glob[i + stars] === '/';
+      if (stars === 2 && atSegmentStart && atSegmentEnd) {
+        if (i + stars === glob.length) {
+          // Trailing `/**` matches everything inside
+          source += '.*';
+          i += stars;
+        } else {
+          // Leading `**/` or inner `/**/` match zero or more directories
+          source += '(?:.*/)?';
+          i += stars + 1;
+        }
+      } else {
+        source += '[^/]*';
+        i += stars;
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+      i++;
+    } else if (char === '[') {
+      const bracket = convertBracket(glob, i);
+      if (bracket) {
+        source += bracket.source;
+        i = bracket.end + 1;
+      } else {
+        source += '\\[';
+        i++;
+      }
+    } else if (char === '\\' && i + 1 < glob.length) {
+      source += escapeRegex(glob[i + 1]);
+      i += 2;
+    } else {
+      source += escapeRegex(char);
+      i++;
+    }
+  }
+  return source;
+};
+
+// Remove trailing spaces that are not escaped with a backslash
+const trimTrailingSpaces = (line: string): string => {
+  let end = line.length;
+  while (end > 0 && line[end - 1] === ' ' && line[end - 2] !== '\\') {
+    end--;
+  }
+  return line.slice(0, end);
+};
+
+// Compile one gitignore-style pattern. Returns null for blank lines and
+// comments. `anchorAll` treats the pattern as relative to its base even when
+// it has no slash, which is how .dockerignore behaves.
+export const compilePattern = (rawLine: string, anchorAll = false): CompiledPattern | null => {
+  let line = trimTrailingSpaces(rawLine);
+  if (line === '' || line.startsWith('#')) return null;
+
+  let negated = false;
+  if (line.startsWith('!')) {
+    negated = true;
+    line = line.slice(1);
+  }
+
+  let dirOnly = false;
+  if (line.endsWith('/') && !line.endsWith('\\/')) {
+    dirOnly = true;
+    line = line.replace(/\/+$/, '');
+  }
+
+  // A slash at the start or in the middle anchors the pattern to its base
+  const anchored = anchorAll || line.includes('/');
+  line = line.replace(/^\/+/, '');
+  if (line === '') return null;
+
+  const source = (anchored ? '' : '(?:.*/)?') + globToRegexSource(line);
+  return { negated, dirOnly, regex: new RegExp(`^${source}$`) };
+};
+
+// Parse the content of one ignore file
+export const parseIgnoreFile = (content: string, base: string, anchorAll = false): IgnoreRule[] => {
+  const rules: IgnoreRule[] = [];
+  content.split(/\r?\n/).forEach((rawLine, index) => {
+    const compiled = compilePattern(rawLine, anchorAll);
+    if (compiled) {
+      rules.push({ base, pattern: rawLine.trim(), line: index + 1, ...compiled });
+    }
+  });
+  return rules;
+};
+
+// Build a matcher from every ignore file found in the selection. Each file
+// only applies to paths below its own directory, deeper files take precedence
+// over shallower ones and the last matching pattern wins. Like git, nothing
+// inside an ignored directory can be re-included.
+export const createIgnoreMatcher = (files: IgnoreFile[]) => {
+  const precedence = [GITIGNORE_FILE, ...EXTRA_IGNORE_FILES];
+  const ordered = [...files].sort((a, b) =>
+    precedence.indexOf(basenameOf(a.path)) - precedence.indexOf(basenameOf(b.path))
+  );
+  // Rules keep the path of the file they came from, to explain matches
+  const rulesByBase = new Map<string, (IgnoreRule & { file: string })[]>();
+  ordered.forEach(({ path, content }) => {
+    const base = dirnameOf(path);
+    const anchorAll = basenameOf(path) === '.dockerignore';
+    const rules = rulesByBase.get(base) || [];
+    rules.push(...parseIgnoreFile(content, base, anchorAll).map(rule => ({ ...rule, file: path })));
+    rulesByBase.set(base, rules);
+  });
+
+  const dirCache = new Map<string, boolean>();
+
+  // Evaluate the rules of every ignore file above `path`, top-down, and
+  // return the last one that matched
+  const lastMatch = (path: string, isDir: boolean) => {
+    let last: (IgnoreRule & { file: string }) | undefined;
+    let index = -1;
+    do {
+      const base = path.slice(0, index + 1);
+      const rules = rulesByBase.get(base);
+      if (rules) {
+        const relative = path.slice(base.length);
+        rules.forEach(rule => {
+          if (rule.dirOnly && !isDir) return;
+          if (rule.regex.test(relative)) {
+            last = rule;
+          }
+        });
+      }
+      index = path.indexOf('/', index + 1);
+    } while (index !== -1);
+    return last;
+  };
+
+  const matches = (path: string, isDir: boolean): boolean => {
+    const rule = lastMatch(path, isDir);
+    return rule !== undefined && !rule.negated;
+  };
+
+  const isDirIgnored = (dirPath: string): boolean => {
+    let ignored = dirCache.get(dirPath);
+    if (ignored === undefined) {
+      ignored = matches(dirPath, true);
+      dirCache.set(dirPath, ignored);
+    }
+    return ignored;
+  };
+
+  // Check a path, and every directory above it
+  const isIgnored = (path: string, isDir = false): boolean => {
+    let index = path.indexOf('/');
+    while (index !== -1) {
+      if (isDirIgnored(path.slice(0, index))) return true;
+      index = path.indexOf('/', index + 1);
+    }
+    return isDir ? isDirIgnored(path) : matches(path, false);
+  };
+
+  // Tell which line hides a path, or null when it is not ignored
+  const explain = (path: string, isDir = false): IgnoreMatch | null => {
+    let matchedPath: string | null = null;
+    for (let index = path.indexOf('/'); index !== -1 && matchedPath === null; index = path.indexOf('/', index + 1)) {
+      if (isDirIgnored(path.slice(0, index))) matchedPath = path.slice(0, index);
+    }
+    if (matchedPath === null && matches(path, isDir)) matchedPath = path;
+    if (matchedPath === null) return null;
+    const rule = lastMatch(matchedPath, matchedPath !== path || isDir)!;
+    return { file: rule.file, line: rule.line, pattern: rule.pattern, matchedPath };
+  };
+
+  return { isIgnored, isDirIgnored, explain };
+};
+
+export type IgnoreMatcher = ReturnType<typeof createIgnoreMatcher>;
+
+// Check whether a path is an ignore file we should read
+export const isIgnoreFile = (path: string, includeExtra: boolean): boolean => {
+  const name = basenameOf(path);
+  return name === GITIGNORE_FILE || (includeExtra && EXTRA_IGNORE_FILES.includes(name));
+};
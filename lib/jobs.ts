@@ -0,0 +1,230 @@
+// The work behind a preview, split into jobs that run inside the structure
+// worker so large projects never block the page
+
+import {
+  createPathFilter,
+  explainExclusions,
+  renderTreeStructure,
+  type Exclusion,
+  type RenderedStructure,
+} from './engine';
+import { entryFileSize, readEntryFile, readEntryText } from './archives';
+import { isIgnoreFile, type IgnoreFile } from './gitignore';
+import { readManifests, type Manifest } from './overview';
+import type { RenderOptions } from './render';
+import type { GenerationSettings } from './settings';
+import { countLines, isBinaryPath, type FileStats } from './stats';
+import { buildTree, type FileTree, type TreeEntry } from './tree';
+import { packageScan } from './workspaces';
+
+// A file from the selected project, with its path including the root folder.
+// Empty folders and symlinks carry their type and have no file to read.
+export interface SourceEntry {
+  path: string;
+  file?: File;
+  // Set while the file holds its content still compressed, as deflated ZIP
+  // entries do until they are read; see readEntryFile
+  compression?: 'deflate-raw';
+  // The size of the content once inflated, for a compressed file
+  size?: number;
+  type?: TreeEntry['type'];
+  target?: string;
+}
+
+export interface ProjectScan {
+  rootFolder: string;
+  entries: SourceEntry[];
+  // Every .gitignore, .ignore and .dockerignore found, with its content
+  ignoreFiles: IgnoreFile[];
+  // The manifests at the root of the project, for the overview
+  manifests: Manifest[];
+}
+
+export interface TreeResult {
+  rootFolder: string;
+  tree: FileTree;
+  fileCount: number;
+  // Sizes and line counts of the kept files, keyed by path relative to the root folder
+  fileStats: Record<string, FileStats>;
+  // Number of paths each include or exclude rule matched, by rule id
+  matchCounts: Record<string, number>;
+  // What was left out and why
+  exclusions: Exclusion[];
+}
+
+// A package of a workspace to generate, with the settings its own config gives it
+export interface PackageRequest {
+  // Folder relative to the root folder
+  path: string;
+  settings: GenerationSettings;
+}
+
+// A built tree to render, with folders relative to its root folder to show collapsed
+export interface RenderRequest {
+  tree: FileTree;
+  rootFolder: string;
+  options: RenderOptions;
+  fileStats: Record<string, FileStats>;
+  collapsedPaths: string[];
+}
+
+export type JobPhase = 'scanning' | 'filtering' | 'counting' | 'building' | 'rendering';
+
+export type ProgressCallback = (phase: JobPhase, done: number, total: number) => void;
+
+export type WorkerRequest =
+  | { type: 'scan'; entries: SourceEntry[] }
+  | { type: 'generate'; scan: ProjectScan; settings: GenerationSettings }
+  | {
+      type: 'render';
+      tree: FileTree;
+      rootFolder: string;
+      options: RenderOptions;
+      fileStats: Record<string, FileStats>;
+    }
+  | { type: 'generate-packages'; scan: ProjectScan; packages: PackageRequest[] }
+  | { type: 'render-many'; requests: RenderRequest[] };
+
+export type WorkerResponse =
+  | { type: 'progress'; phase: JobPhase; done: number; total: number }
+  | { type: 'scanned'; scan: ProjectScan }
+  | { type: 'generated'; result: TreeResult }
+  | { type: 'rendered'; rendered: RenderedStructure }
+  | { type: 'packages-generated'; results: TreeResult[] }
+  | { type: 'rendered-many'; rendered: RenderedStructure[] }
+  | { type: 'error'; message: string };
+
+// How many files to process between progress reports
+const PROGRESS_BATCH = 1000;
+
+const reportBatch = (
+  onProgress: ProgressCallback,
+  phase: JobPhase,
+  done: number,
+  total: number,
+  batch = PROGRESS_BATCH
+) => {
+  if (done % batch === 0 || done === total) {
+    onProgress(phase, done, total);
+  }
+};
+
+// Index the selected files and read every ignore file and manifest among them
+export const scanProject = async (entries: SourceEntry[], onProgress: ProgressCallback): Promise<ProjectScan> => {
+  const rootFolder = entries.length > 0 ? entries[0].path.split('/')[0] : '';
+  const ignoreFiles: IgnoreFile[] = [];
+  const total = entries.length;
+  onProgress('scanning', 0, total);
+
+  for (let i = 0; i < total; i++) {
+    const entry = entries[i];
+    if (entry.file && isIgnoreFile(entry.path, true)) {
+      ignoreFiles.push({ path: entry.path, content: await readEntryText(entry) });
+    }
+    reportBatch(onProgress, 'scanning', i + 1, total);
+  }
+
+  const files = entries.flatMap(entry => (entry.file ? [{ path: entry.path, text: () => readEntryText(entry) }] : []));
+  return { rootFolder, entries, ignoreFiles, manifests: await readManifests(files, rootFolder) };
+};
+
+// Filter the scanned files, collect their stats and build the folder tree
+export const generateTree = async (
+  scan: ProjectScan,
+  settings: GenerationSettings,
+  onProgress: ProgressCallback
+): Promise<TreeResult> => {
+  const { rootFolder, entries } = scan;
+  const filter = createPathFilter(rootFolder, scan.ignoreFiles, settings);
+
+  const filePaths: string[] = [];
+  const kept: SourceEntry[] = [];
+  const treeEntries: TreeEntry[] = [];
+  const dropped: { path: string; isDir: boolean }[] = [];
+  const total = entries.length;
+  onProgress('filtering', 0, total);
+  for (let i = 0; i < total; i++) {
+    const { path, type, target } = entries[i];
+    if (type) {
+      const entry: TreeEntry = target === undefined ? { path, type } : { path, type, target };
+      if (filter.isEntryKept(entry)) treeEntries.push(entry);
+      else dropped.push({ path, isDir: type === 'directory' });
+    } else if (filter.isKept(path)) {
+      filePaths.push(path);
+      kept.push(entries[i]);
+    } else {
+      dropped.push({ path, isDir: false });
+    }
+    reportBatch(onProgress, 'filtering', i + 1, total);
+  }
+
+  // Reading every file is slow, so line counts are only collected on request
+  const fileStats: Record<string, FileStats> = {};
+  if (settings.countLines) onProgress('counting', 0, kept.length);
+  for (let i = 0; i < kept.length; i++) {
+    const entry = kept[i];
+    const { path } = entry;
+    const stats: FileStats = {};
+    if (entry.file) {
+      stats.size = entryFileSize(entry);
+      if (settings.countLines && !isBinaryPath(path)) {
+        const lines = await countLines(await readEntryFile(entry));
+        if (lines !== undefined) stats.lines = lines;
+      }
+    }
+    fileStats[path.slice(rootFolder.length + 1)] = stats;
+    if (settings.countLines) reportBatch(onProgress, 'counting', i + 1, kept.length, 100);
+  }
+
+  onProgress('building', 0, 1);
+  const tree = buildTree(filePaths, treeEntries);
+  onProgress('building', 1, 1);
+
+  return {
+    rootFolder,
+    tree,
+    fileCount: filePaths.length,
+    fileStats,
+    matchCounts: filter.matchCounts,
+    exclusions: explainExclusions(filter, dropped),
+  };
+};
+
+// Render a built tree in the chosen output style, with its language summary
+export const renderTree = (
+  tree: FileTree,
+  rootFolder: string,
+  options: RenderOptions,
+  fileStats: Record<string, FileStats>,
+  onProgress: ProgressCallback
+): RenderedStructure => {
+  onProgress('rendering', 0, 1);
+  const rendered = renderTreeStructure(tree, rootFolder, options, fileStats);
+  onProgress('rendering', 1, 1);
+  return rendered;
+};
+
+// Build the tree of each package of a workspace in turn, each as if its
+// folder had been selected on its own
+export const generatePackageTrees = async (
+  scan: ProjectScan,
+  packages: PackageRequest[],
+  onProgress: ProgressCallback
+): Promise<TreeResult[]> => {
+  const results: TreeResult[] = [];
+  for (const { path, settings } of packages) {
+    results.push(await generateTree(packageScan(scan, path, settings), settings, onProgress));
+  }
+  return results;
+};
+
+// Render several built trees, such as a workspace overview and its packages
+export const renderTrees = (requests: RenderRequest[], onProgress: ProgressCallback): RenderedStructure[] => {
+  const rendered: RenderedStructure[] = [];
+  onProgress('rendering', 0, requests.length);
+  requests.forEach(({ tree, rootFolder, options, fileStats, collapsedPaths }, index) => {
+    rendered.push(renderTreeStructure(tree, rootFolder, options, fileStats, collapsedPaths));
+    onProgress('rendering', index + 1, requests.length);
+  });
+  return rendered;
+};
@@ -0,0 +1,88 @@
+// Shrinking large trees before rendering: a depth limit, collapsing folders
+// with many entries, and folding chains of single-child folders.
+
+import { isDirectory, type FileTree, type TreeNode } from './tree';
+
+export interface LimitOptions {
+  // Deepest level shown below the root, 0 for no limit
+  maxDepth: number;
+  // Folders with more direct entries than this are collapsed, 0 to never collapse
+  collapseThreshold: number;
+  // Show `src/main/java` on one line when each folder only holds the next
+  foldSingleChildDirs: boolean;
+}
+
+// Count the files below a node; symlinks count as files
+export const countFiles = (tree: FileTree): number => {
+  let count = 0;
+  for (const key of Object.keys(tree)) {
+    const child = tree[key];
+    count += isDirectory(child) ? countFiles(child.children) : 1;
+  }
+  return count;
+};
+
+// The folder with a single entry standing in for its hidden content. Empty
+// folders stay empty.
+const summaryNode = (node: TreeNode): TreeNode => {
+  if (Object.keys(node.children).length === 0) return node;
+  const count = countFiles(node.children);
+  const name = `… (${count} ${count === 1 ? 'file' : 'files'})`;
+  return { ...node, children: { [name]: { type: 'collapsed', children: {} } } };
+};
+
+const limitNode = (
+  tree: FileTree,
+  options: LimitOptions,
+  depth: number,
+  prefix: string,
+  collapsed: Set<string>
+): FileTree => {
+  const limited: FileTree = {};
+  for (const key of Object.keys(tree)) {
+    const child = tree[key];
+    if (!isDirectory(child)) {
+      limited[key] = child;
+    } else if (collapsed.has(prefix + key)) {
+      limited[key] = summaryNode(child);
+    } else if (options.maxDepth > 0 && depth >= options.maxDepth) {
+      limited[key] = summaryNode(child);
+    } else if (options.collapseThreshold > 0 && Object.keys(child.children).length > options.collapseThreshold) {
+      limited[key] = summaryNode(child);
+    } else {
+      limited[key] = { ...child, children: limitNode(child.children, options, depth + 1, prefix + key + '/', collapsed) };
+    }
+  }
+  return limited;
+};
+
+// Merge each folder whose only entry is another folder into one node. Pinned
+// folders keep their own line, so nothing attached to them gets lost.
+const foldNode = (tree: FileTree, prefix: string, pinned: Set<string>): FileTree => {
+  const folded: FileTree = {};
+  for (const key of Object.keys(tree)) {
+    let name = key;
+    let child = tree[key];
+    while (isDirectory(child) && !pinned.has(prefix + name)) {
+      const keys = Object.keys(child.children);
+      if (keys.length !== 1 || !isDirectory(child.children[keys[0]])) break;
+      name += '/' + keys[0];
+      child = child.children[keys[0]];
+    }
+    folded[name] = { ...child, children: foldNode(child.children, prefix + name + '/', pinned) };
+  }
+  return folded;
+};
+
+// Apply the limits to the children of the root folder. `pinned` lists paths,
+// relative to the root folder, that must not be folded away, and `collapsed`
+// folders that are always shown collapsed. Returns a new tree.
+export const limitTree = (
+  tree: FileTree,
+  options: LimitOptions,
+  pinned: Set<string> = new Set(),
+  collapsed: Set<string> = new Set()
+): FileTree => {
+  const limited = limitNode(tree, options, 1, '', collapsed);
+  return options.foldSingleChildDirs ? foldNode(limited, '', pinned) : limited;
+};
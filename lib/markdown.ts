@@ -0,0 +1,349 @@
+// A small GitHub-flavoured Markdown renderer for the README preview. It covers
+// what generated READMEs and their templates use: headings, paragraphs,
+// lists with task items, fenced code, block quotes, tables, emphasis, links,
+// images and raw HTML such as the <details> of the HTML output style. The
+// HTML it writes must go through sanitizeHtml before it is shown.
+
+const escapeHtml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+};
+
+// Escape text that may already hold entities such as &copy;, keeping them
+const escapeText = (text: string): string => {
+  return escapeHtml(text).replace(/&amp;(#\d+|#x[\da-f]+|[a-z][a-z\d]*);/gi, '&$1;');
+};
+
+const INLINE_HTML = /^<\/?[a-zA-Z][\w-]*(?:\s+[\w:-]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*\s*\/?>|^<!--[\s\S]*?-->/;
+const AUTOLINK = /^<((?:https?|mailto):[^\s<>]+)>/;
+const BARE_URL = /^(?:https?:\/\/|www\.)[^\s<]*[^\s<?!.,:*_~)'"]/;
+const LINK = /^(!?)\[((?:\\.|`[^`]*`|[^\]\\])*)\]\(\s*<?([^\s)>]*)>?(?:\s+"([^"]*)")?\s*\)/;
+
+// Render the inline content of a block. Code spans, links, HTML and escapes
+// are taken out first, so emphasis markers inside them are left alone.
+export const renderInline = (text: string): string => {
+  const tokens: string[] = [];
+  const keep = (html: string) => {
+    tokens.push(html);
+    return `\uE000${tokens.length - 1}\uE000`;
+  };
+
+  let rest = text;
+  let out = '';
+  while (rest) {
+    const char = rest[0];
+    let match: RegExpExecArray | null;
+    if (char === '\\' && /^\\[!-/:-@[-`{-~]/.test(rest)) {
+      out += keep(escapeHtml(rest[1]));
+      rest = rest.slice(2);
+    } else if (char === '\\' && rest[1] === '\n') {
+      out += keep('<br>\n');
+      rest = rest.slice(2);
+    } else if (char === '`' && (match = /^(`+)([\s\S]*?[^`])\1(?!`)/.exec(rest))) {
+      const code = match[2].replace(/\n/g, ' ');
+      const trimmed = /^ .* $/.test(code) && code.trim() ? code.slice(1, -1) : code;
+      out += keep(`<code>${escapeHtml(trimmed)}</code>`);
+      rest = rest.slice(match[0].length);
+    } else if (char === '<' && (match = AUTOLINK.exec(rest))) {
+      out += keep(`<a href="${escapeHtml(match[1])}">${escapeHtml(match[1])}</a>`);
+      rest = rest.slice(match[0].length);
+    } else if (char === '<' && (match = INLINE_HTML.exec(rest))) {
+      out += keep(match[0]);
+      rest = rest.slice(match[0].length);
+    } else if ((char === '[' || (char === '!' && rest[1] === '[')) && (match = LINK.exec(rest))) {
+      const [whole, bang, label, url, title] = match;
+      const titleAttr = title ? ` title="${escapeText(title)}"` : '';
+      out += keep(
+        bang
+          ? `<img src="${escapeHtml(url)}" alt="${escapeText(label)}"${titleAttr}>`
+          : `<a href="${escapeHtml(url)}"${titleAttr}>${renderInline(label)}</a>`
+      );
+      rest = rest.slice(whole.length);
+    } else if ((char === 'h' || char === 'w') && /(?:^|[\s(*_~])$/.test(out.slice(-1) || ' ') && (match = BARE_URL.exec(rest))) {
+      const href = match[0].startsWith('www.') ? `http://${match[0]}` : match[0];
+      out += keep(`<a href="${escapeHtml(href)}">${escapeHtml(match[0])}</a>`);
+      rest = rest.slice(match[0].length);
+    } else {
+      out += char;
+      rest = rest.slice(1);
+    }
+  }
+
+  return escapeText(out)
+    .replace(/(\*\*|__)(?=\S)([\s\S]*?\S)\1/g, '<strong>$2</strong>')
+    .replace(/\*(?=\S)([\s\S]*?\S)\*/g, '<em>$1</em>')
+    .replace(/(^|[^\w])_(?=\S)([\s\S]*?\S)_(?!\w)/g, '$1<em>$2</em>')
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<del>$1</del>')
+    .replace(/ {2,}\n/g, '<br>\n')
+    .replace(/\uE000(\d+)\uE000/g, (_whole, index: string) => tokens[Number(index)]);
+};
+
+// Block-level HTML that starts a raw HTML block, as in CommonMark
+const HTML_BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'body', 'center', 'dd', 'details', 'dialog', 'div', 'dl', 'dt',
+  'figcaption', 'figure', 'footer', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'li', 'main', 'nav',
+  'ol', 'p', 'picture', 'section', 'summary', 'table', 'tbody', 'td', 'tfoot', 'th', 'thead', 'tr', 'ul',
+]);
+
+const isHtmlBlockStart = (line: string): boolean => {
+  const match = /^ {0,3}<\/?([a-zA-Z][\w-]*)(?=[\s/>]|$)/.exec(line);
+  if (match) return HTML_BLOCK_TAGS.has(match[1].toLowerCase()) || /^ {0,3}<\/?[a-zA-Z][^>]*>\s*$/.test(line);
+  return /^ {0,3}<!--/.test(line);
+};
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([^`\s]*)[^`]*$/;
+const HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const RULE = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const LIST_ITEM = /^( {0,3})([-*+]|\d{1,9}[.)])([ \t]+|$)/;
+const TABLE_SEPARATOR = /^ {0,3}\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+
+// Split a table row into cells, keeping escaped pipes and pipes in code
+const splitRow = (line: string): string[] => {
+  const cells: string[] = [];
+  let cell = '';
+  let inCode = false;
+  const row = line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '');
+  for (let i = 0; i < row.length; i++) {
+    const char = row[i];
+    if (char === '\\' && row[i + 1] === '|') {
+      cell += '|';
+      i++;
+    } else if (char === '`') {
+      inCode = !inCode;
+      cell += char;
+    } else if (char === '|' && !inCode) {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+};
+
+// Whether a line ends the paragraph before it
+const interruptsParagraph = (line: string): boolean => {
+  return (
+    HEADING.test(line) ||
+    FENCE.test(line) ||
+    RULE.test(line) ||
+    /^ {0,3}>/.test(line) ||
+    /^ {0,3}([-*+]|1[.)])[ \t]+\S/.test(line) ||
+    isHtmlBlockStart(line)
+  );
+};
+
+const renderBlocks = (lines: string[]): string => {
+  const html: string[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    let match: RegExpExecArray | null;
+
+    if (!line.trim()) {
+      i++;
+    } else if ((match = FENCE.exec(line))) {
+      const fence = match[1];
+      const indent = line.length - line.trimStart().length;
+      const language = match[2];
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !new RegExp(`^ {0,3}${fence[0]}{${fence.length},}\\s*$`).test(lines[i])) {
+        code.push(lines[i].replace(new RegExp(`^ {0,${indent}}`), ''));
+        i++;
+      }
+      i++;
+      const languageClass = language ? ` class="language-${escapeHtml(language)}"` : '';
+      html.push(`<pre><code${languageClass}>${escapeHtml(code.join('\n'))}${code.length ? '\n' : ''}</code></pre>`);
+    } else if ((match = HEADING.exec(line))) {
+      const level = match[1].length;
+      html.push(`<h${level}>${renderInline(match[2] || '')}</h${level}>`);
+      i++;
+    } else if (RULE.test(line)) {
+      html.push('<hr>');
+      i++;
+    } else if (isHtmlBlockStart(line)) {
+      // Raw HTML runs to the next blank line
+      while (i < lines.length && lines[i].trim()) html.push(lines[i++]);
+    } else if (/^ {0,3}>/.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && lines[i].trim() && (/^ {0,3}>/.test(lines[i]) || quoted.length > 0)) {
+        if (!/^ {0,3}>/.test(lines[i]) && interruptsParagraph(lines[i])) break;
+        quoted.push(lines[i].replace(/^ {0,3}> ?/, ''));
+        i++;
+      }
+      html.push(`<blockquote>\n${renderBlocks(quoted)}\n</blockquote>`);
+    } else if ((match = LIST_ITEM.exec(line))) {
+      const ordered = /\d/.test(match[2]);
+      const marker = match[2].slice(-1);
+      const start = ordered ? parseInt(match[2], 10) : 1;
+      const items: string[][] = [];
+      let loose = false;
+      // Whether the item before ended with a blank line
+      let endedBlank = false;
+      while (i < lines.length) {
+        const itemMatch = LIST_ITEM.exec(lines[i]);
+        if (!itemMatch || /\d/.test(itemMatch[2]) !== ordered || itemMatch[2].slice(-1) !== marker) break;
+        // Items apart from each other make a loose list
+        if (endedBlank) loose = true;
+        // An item without text on its marker line takes its content from the
+        // lines indented one past the marker
+        const contentIndent = itemMatch[3] ? itemMatch[0].length : itemMatch[0].length + 1;
+        const item = [lines[i].slice(itemMatch[0].length)];
+        i++;
+        let blank = false;
+        while (i < lines.length) {
+          const next = lines[i];
+          const indent = next.length - next.trimStart().length;
+          if (!next.trim()) {
+            blank = true;
+            item.push('');
+            i++;
+          } else if (indent >= contentIndent) {
+            if (blank) loose = true;
+            blank = false;
+            item.push(next.slice(contentIndent));
+            i++;
+          } else if (!blank && !LIST_ITEM.test(next) && !interruptsParagraph(next)) {
+            // A lazy continuation of the item's paragraph
+            item.push(next.trim());
+            i++;
+          } else {
+            break;
+          }
+        }
+        while (item.length > 1 && !item[item.length - 1].trim()) item.pop();
+        items.push(item);
+        endedBlank = blank;
+      }
+      const tag = ordered ? 'ol' : 'ul';
+      const startAttr = ordered && start !== 1 ? ` start="${start}"` : '';
+      html.push(`<${tag}${startAttr}>`);
+      items.forEach(item => {
+        let first = item[0];
+        let task = '';
+        const taskMatch = /^\[([ xX])\][ \t]+/.exec(first);
+        if (taskMatch) {
+          task = `<input type="checkbox" disabled${taskMatch[1] === ' ' ? '' : ' checked'}> `;
+          first = first.slice(taskMatch[0].length);
+        }
+        const body = renderBlocks([first, ...item.slice(1)]);
+        // Tight lists hold their text without paragraphs
+        const content = loose ? body : body.replace(/<p>([\s\S]*?)<\/p>/g, '$1');
+        html.push(`<li${task ? ' class="task-list-item"' : ''}>${task}${content}</li>`);
+      });
+      html.push(`</${tag}>`);
+    } else if (line.includes('|') && i + 1 < lines.length && TABLE_SEPARATOR.test(lines[i + 1]) && lines[i + 1].includes('-')) {
+      const header = splitRow(line);
+      const aligns = splitRow(lines[i + 1]).map(cell =>
+        cell.startsWith(':') && cell.endsWith(':') ? 'center' : cell.endsWith(':') ? 'right' : cell.startsWith(':') ? 'left' : ''
+      );
+      const cell = (tag: string, text: string, index: number) =>
+        `<${tag}${aligns[index] ? ` align="${aligns[index]}"` : ''}>${renderInline(text)}</${tag}>`;
+      html.push('<table>', '<thead>', `<tr>${header.map((text, index) => cell('th', text, index)).join('')}</tr>`, '</thead>');
+      i += 2;
+      const rows: string[] = [];
+      while (i < lines.length && lines[i].trim() && !interruptsParagraph(lines[i])) {
+        const cells = splitRow(lines[i]);
+        rows.push(`<tr>${header.map((_text, index) => cell('td', cells[index] ?? '', index)).join('')}</tr>`);
+        i++;
+      }
+      if (rows.length > 0) html.push('<tbody>', ...rows, '</tbody>');
+      html.push('</table>');
+    } else if (/^( {4}|\t)/.test(line)) {
+      const code: string[] = [];
+      while (i < lines.length && (/^( {4}|\t)/.test(lines[i]) || !lines[i].trim())) {
+        code.push(lines[i].replace(/^( {4}|\t)/, ''));
+        i++;
+      }
+      while (code.length > 0 && !code[code.length - 1].trim()) code.pop();
+      html.push(`<pre><code>${escapeHtml(code.join('\n'))}\n</code></pre>`);
+    } else {
+      const paragraph = [line.trim()];
+      i++;
+      while (i < lines.length && lines[i].trim()) {
+        // A line of = or - under a paragraph makes it a heading
+        const underline = /^ {0,3}(=+|-+)\s*$/.exec(lines[i]);
+        if (underline) {
+          const level = underline[1][0] === '=' ? 1 : 2;
+          html.push(`<h${level}>${renderInline(paragraph.join('\n'))}</h${level}>`);
+          paragraph.length = 0;
+          i++;
+          break;
+        }
+        if (interruptsParagraph(lines[i])) break;
+        paragraph.push(lines[i].replace(/^\s+/, ''));
+        i++;
+      }
+      if (paragraph.length > 0) html.push(`<p>${renderInline(paragraph.join('\n'))}</p>`);
+    }
+  }
+  return html.join('\n');
+};
+
+// Render a Markdown document to HTML
+export const markdownToHtml = (markdown: string): string => {
+  return renderBlocks(markdown.replace(/\r\n?/g, '\n').split('\n'));
+};
+
+// Tags kept by sanitizeHtml with the attributes each may have, close to what
+// GitHub allows in a README
+const ALLOWED_TAGS: Record<string, string[]> = {
+  a: ['href', 'title'],
+  abbr: ['title'],
+  b: [], blockquote: [], br: [], caption: [], code: ['class'], dd: [], del: [], details: ['open'], div: ['align'],
+  dl: [], dt: [], em: [], h1: ['align'], h2: ['align'], h3: ['align'], h4: ['align'], h5: ['align'], h6: ['align'],
+  hr: [], i: [], img: ['src', 'alt', 'title', 'width', 'height', 'align'],
+  input: ['type', 'checked', 'disabled'], ins: [], kbd: [], li: ['class'], mark: [], ol: ['start'],
+  p: ['align'], picture: [], pre: [], q: [], s: [], samp: [], source: ['srcset', 'media'], span: [], strike: [],
+  strong: [], sub: [], summary: [], sup: [], table: [], tbody: [], td: ['align', 'colspan', 'rowspan'],
+  tfoot: [], th: ['align', 'colspan', 'rowspan'], thead: [], tr: [], tt: [], u: [], ul: [], var: [],
+};
+
+// Elements dropped with everything inside them
+const DROPPED_TAGS = new Set(['script', 'style', 'iframe', 'object', 'embed', 'template', 'noscript', 'textarea', 'select']);
+
+// Links and images may be relative or use http, https or mailto; data URLs
+// only for images. Browsers skip whitespace and control characters in a
+// scheme, so they are dropped before it is read.
+const isSafeUrl = (url: string): boolean => {
+  const compact = url.replace(/[\s\p{Cc}]/gu, '');
+  const scheme = /^([a-z][a-z\d+.-]*):/i.exec(compact)?.[1].toLowerCase();
+  return !scheme || ['http', 'https', 'mailto'].includes(scheme) || /^data:image\/(?:png|gif|jpe?g|webp);/i.test(compact);
+};
+
+// Keep only harmless tags and attributes, so a template or annotation cannot
+// run scripts in the preview. Unknown tags are unwrapped, keeping their text.
+export const sanitizeHtml = (html: string): string => {
+  const parsed = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html');
+  const clean = (parent: Element) => {
+    Array.from(parent.children).forEach(element => {
+      const tag = element.tagName.toLowerCase();
+      if (DROPPED_TAGS.has(tag)) {
+        element.remove();
+        return;
+      }
+      clean(element);
+      const allowed = ALLOWED_TAGS[tag];
+      if (!allowed) {
+        element.replaceWith(...Array.from(element.childNodes));
+        return;
+      }
+      Array.from(element.attributes).forEach(({ name, value }) => {
+        const keep = allowed.includes(name) && (!['href', 'src', 'srcset'].includes(name) || isSafeUrl(value));
+        if (!keep) element.removeAttribute(name);
+      });
+      if (tag === 'input' && element.getAttribute('type') !== 'checkbox') element.remove();
+      if (tag === 'a' && /^https?:/i.test(element.getAttribute('href') || '')) {
+        element.setAttribute('target', '_blank');
+        element.setAttribute('rel', 'noopener noreferrer');
+      }
+    });
+  };
+  clean(parsed.body);
+  return parsed.body.innerHTML;
+};
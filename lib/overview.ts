@@ -0,0 +1,449 @@
+// A project overview written from the manifests at the root of the project:
+// what it is, how to install and run it, what it is built with and its
+// license. Sections only come from what the manifests say; a project without
+// them gets no overview.
+
+import { basenameOf } from './gitignore';
+import { readTomlTables, tomlString, tomlStrings } from './toml';
+
+// A manifest read from the project, with its path relative to the root folder
+export interface Manifest {
+  path: string;
+  text: string;
+}
+
+const COMPOSE_FILE_NAMES = ['compose.yaml', 'compose.yml', 'docker-compose.yaml', 'docker-compose.yml'];
+
+export const MANIFEST_FILE_NAMES = [
+  'package.json',
+  'pyproject.toml',
+  'Cargo.toml',
+  'go.mod',
+  'Dockerfile',
+  ...COMPOSE_FILE_NAMES,
+];
+
+// Matched ignoring case, as LICENSE, License.md and licence.txt all occur
+const LICENSE_FILE = /^(?:licen[cs]e|copying)(?:\.md|\.txt)?$/i;
+
+// Lockfiles tell which package manager a Node.js project uses
+const LOCKFILES: Record<string, NodePackageManager> = {
+  'pnpm-lock.yaml': 'pnpm',
+  'yarn.lock': 'yarn',
+  'bun.lockb': 'bun',
+  'bun.lock': 'bun',
+  'package-lock.json': 'npm',
+};
+
+type NodePackageManager = 'npm' | 'yarn' | 'pnpm' | 'bun';
+
+export type OverviewSectionId = 'about' | 'installation' | 'scripts' | 'tech-stack' | 'license';
+
+export interface OverviewSection {
+  id: OverviewSectionId;
+  title: string;
+  content: string;
+  enabled: boolean;
+}
+
+// What the manifests say about the project
+export interface ProjectFacts {
+  description?: string;
+  // Files the facts were read from, relative to the root folder
+  sources: string[];
+  node?: {
+    packageManager: NodePackageManager;
+    version?: string;
+    scripts: Record<string, string>;
+    dependencies: string[];
+    typescript: boolean;
+  };
+  python?: {
+    version?: string;
+    poetry: boolean;
+    scripts: Record<string, string>;
+    dependencies: string[];
+  };
+  rust?: { edition?: string; dependencies: string[] };
+  go?: { module: string; version?: string; dependencies: string[] };
+  docker?: { baseImages: string[]; ports: string[] };
+  compose?: { file: string; services: { name: string; image?: string }[] };
+  license?: { id?: string; file?: string };
+}
+
+// Find the manifests and license file at the root of the project. Paths
+// start with the root folder name.
+export const findManifestPaths = (paths: string[], rootFolder: string): string[] => {
+  const prefix = `${rootFolder}/`;
+  return paths.filter(path => {
+    if (!path.startsWith(prefix)) return false;
+    const name = path.slice(prefix.length);
+    return MANIFEST_FILE_NAMES.includes(name) || LICENSE_FILE.test(name);
+  });
+};
+
+// Read the manifests found by findManifestPaths among the project's files.
+// Paths start with the root folder name; the manifests' are relative to it.
+export const readManifests = async (
+  files: { path: string; text: () => Promise<string> }[],
+  rootFolder: string
+): Promise<Manifest[]> => {
+  const manifestPaths = findManifestPaths(files.map(file => file.path), rootFolder);
+  return Promise.all(
+    files
+      .filter(file => manifestPaths.includes(file.path))
+      .map(async file => ({ path: file.path.slice(rootFolder.length + 1), text: await file.text() }))
+  );
+};
+
+// The package name at the start of a requirement like "fastapi>=0.110"
+const requirementName = (requirement: string): string => {
+  return (/^[A-Za-z0-9._-]+/.exec(requirement.trim()) || [requirement.trim()])[0];
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const stringRecord = (value: unknown): Record<string, string> => {
+  if (!isRecord(value)) return {};
+  const record: Record<string, string> = {};
+  Object.entries(value).forEach(([key, entry]) => {
+    if (typeof entry === 'string') record[key] = entry;
+  });
+  return record;
+};
+
+const readPackageJson = (text: string, facts: ProjectFacts, rootPaths: string[]) => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return false;
+  }
+  if (!isRecord(data)) return false;
+  if (typeof data.description === 'string' && data.description.trim()) {
+    facts.description = facts.description || data.description.trim();
+  }
+  if (typeof data.license === 'string') facts.license = { ...facts.license, id: data.license };
+
+  // The packageManager field ("pnpm@9.1.0") wins over lockfiles
+  const declared = typeof data.packageManager === 'string' ? data.packageManager.split('@')[0] : '';
+  const lockfile = Object.keys(LOCKFILES).find(name => rootPaths.includes(name));
+  const packageManager = ['npm', 'yarn', 'pnpm', 'bun'].includes(declared)
+    ? (declared as NodePackageManager)
+    : lockfile
+      ? LOCKFILES[lockfile]
+      : 'npm';
+  const dependencies = Object.keys(stringRecord(data.dependencies));
+  const devDependencies = Object.keys(stringRecord(data.devDependencies));
+  facts.node = {
+    packageManager,
+    version: stringRecord(data.engines).node,
+    scripts: stringRecord(data.scripts),
+    dependencies,
+    typescript: [...dependencies, ...devDependencies].includes('typescript'),
+  };
+  return true;
+};
+
+const readPyproject = (text: string, facts: ProjectFacts) => {
+  const tables = readTomlTables(text);
+  const project = tables.project || {};
+  const poetry = tables['tool.poetry'];
+  if (!tables.project && !poetry) return false;
+
+  const description = tomlString(project.description) || tomlString(poetry?.description);
+  if (description) facts.description = facts.description || description;
+  const license = tomlString(project.license) || tomlString(poetry?.license);
+  if (license) facts.license = { ...facts.license, id: facts.license?.id || license };
+
+  const poetryDependencies = Object.keys(tables['tool.poetry.dependencies'] || {});
+  facts.python = {
+    version:
+      tomlString(project['requires-python']) || tomlString(tables['tool.poetry.dependencies']?.python),
+    poetry: !!poetry,
+    scripts: Object.fromEntries(
+      Object.entries({ ...tables['tool.poetry.scripts'], ...tables['project.scripts'] }).map(([name, value]) => [
+        name,
+        tomlString(value) || value,
+      ])
+    ),
+    dependencies: [
+      ...tomlStrings(project.dependencies).map(requirementName),
+      ...poetryDependencies.filter(name => name !== 'python'),
+    ],
+  };
+  return true;
+};
+
+const readCargoToml = (text: string, facts: ProjectFacts) => {
+  const tables = readTomlTables(text);
+  const cargoPackage = tables.package;
+  if (!cargoPackage && !tables.workspace) return false;
+  const description = tomlString(cargoPackage?.description);
+  if (description) facts.description = facts.description || description;
+  const license = tomlString(cargoPackage?.license);
+  if (license) facts.license = { ...facts.license, id: facts.license?.id || license };
+  facts.rust = {
+    edition: tomlString(cargoPackage?.edition),
+    dependencies: Object.keys(tables.dependencies || {}),
+  };
+  return true;
+};
+
+const readGoMod = (text: string, facts: ProjectFacts) => {
+  const module = /^module\s+(\S+)/m.exec(text);
+  if (!module) return false;
+  const version = /^go\s+(\S+)/m.exec(text);
+  const dependencies: string[] = [];
+  let inBlock = false;
+  text.split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.trim();
+    if (/^require\s*\($/.test(line)) {
+      inBlock = true;
+      return;
+    }
+    if (inBlock && line === ')') {
+      inBlock = false;
+      return;
+    }
+    const requirement = inBlock ? line : /^require\s+(.*)$/.exec(line)?.[1];
+    // Indirect requirements are those of the dependencies
+    if (requirement && !requirement.startsWith('//') && !requirement.includes('// indirect')) {
+      dependencies.push(requirement.split(/\s+/)[0]);
+    }
+  });
+  facts.go = { module: module[1], version: version?.[1], dependencies };
+  return true;
+};
+
+const readDockerfile = (text: string, facts: ProjectFacts) => {
+  const stages = new Set<string>();
+  const baseImages: string[] = [];
+  const ports: string[] = [];
+  // Instructions can be continued over several lines with a trailing backslash
+  text.replace(/\\\r?\n/g, ' ').split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.trim();
+    const from = /^FROM\s+(?:--\S+\s+)*(\S+)(?:\s+AS\s+(\S+))?/i.exec(line);
+    if (from) {
+      // Later stages often build on earlier ones, which are not images
+      if (!stages.has(from[1].toLowerCase()) && !baseImages.includes(from[1])) baseImages.push(from[1]);
+      if (from[2]) stages.add(from[2].toLowerCase());
+    }
+    const expose = /^EXPOSE\s+(.+)$/i.exec(line);
+    if (expose) ports.push(...expose[1].split(/\s+/).filter(port => !ports.includes(port)));
+  });
+  if (baseImages.length === 0) return false;
+  facts.docker = { baseImages, ports };
+  return true;
+};
+
+// Read the services of a Compose file from its indentation, without a YAML parser
+const readComposeFile = (path: string, text: string, facts: ProjectFacts) => {
+  const services: { name: string; image?: string }[] = [];
+  let inServices = false;
+  let serviceIndent = -1;
+  text.split(/\r?\n/).forEach(rawLine => {
+    if (!rawLine.trim() || rawLine.trim().startsWith('#')) return;
+    const indent = rawLine.length - rawLine.trimStart().length;
+    const line = rawLine.trim();
+    if (indent === 0) {
+      inServices = /^services:\s*$/.test(line);
+      serviceIndent = -1;
+      return;
+    }
+    if (!inServices) return;
+    if (serviceIndent === -1) serviceIndent = indent;
+    const key = /^["']?([\w.-]+)["']?:\s*(.*)$/.exec(line);
+    if (!key) return;
+    if (indent === serviceIndent) {
+      services.push({ name: key[1] });
+    } else if (key[1] === 'image' && indent > serviceIndent && services.length > 0) {
+      services[services.length - 1].image = key[2].replace(/^["']|["']$/g, '');
+    }
+  });
+  if (services.length === 0) return false;
+  facts.compose = { file: path, services };
+  return true;
+};
+
+// Tell a license apart by the wording of its text
+const LICENSE_TEXTS: [RegExp, string][] = [
+  [/GNU AFFERO GENERAL PUBLIC LICENSE\s+Version 3/i, 'AGPL-3.0'],
+  [/GNU LESSER GENERAL PUBLIC LICENSE\s+Version 3/i, 'LGPL-3.0'],
+  [/GNU LESSER GENERAL PUBLIC LICENSE\s+Version 2\.1/i, 'LGPL-2.1'],
+  [/GNU GENERAL PUBLIC LICENSE\s+Version 3/i, 'GPL-3.0'],
+  [/GNU GENERAL PUBLIC LICENSE\s+Version 2/i, 'GPL-2.0'],
+  [/Apache License\s+Version 2\.0/i, 'Apache-2.0'],
+  [/Mozilla Public License,?\s+(?:Version|v\.)\s*2\.0/i, 'MPL-2.0'],
+  [/This is free and unencumbered software released into the public domain/i, 'Unlicense'],
+  [/Permission is hereby granted, free of charge/i, 'MIT'],
+  [/Permission to use, copy, modify, and\/or distribute this software/i, 'ISC'],
+  [/Neither the name of/i, 'BSD-3-Clause'],
+  [/Redistribution and use in source and binary forms/i, 'BSD-2-Clause'],
+];
+
+const identifyLicense = (text: string): string | undefined => {
+  return LICENSE_TEXTS.find(([pattern]) => pattern.test(text))?.[1];
+};
+
+// Collect the facts from the manifests found by findManifestPaths.
+// `rootPaths` are the other paths at the root, used to spot lockfiles.
+export const readProjectFacts = (manifests: Manifest[], rootPaths: string[]): ProjectFacts => {
+  const facts: ProjectFacts = { sources: [] };
+  // The manifests' own fields describe the project better than a guess from
+  // the license text, so the license file is read last
+  const ordered = [...manifests].sort((a, b) => Number(LICENSE_FILE.test(a.path)) - Number(LICENSE_FILE.test(b.path)));
+  ordered.forEach(({ path, text }) => {
+    const name = basenameOf(path);
+    let used = false;
+    if (name === 'package.json') used = readPackageJson(text, facts, rootPaths);
+    else if (name === 'pyproject.toml') used = readPyproject(text, facts);
+    else if (name === 'Cargo.toml') used = readCargoToml(text, facts);
+    else if (name === 'go.mod') used = readGoMod(text, facts);
+    else if (name === 'Dockerfile') used = readDockerfile(text, facts);
+    else if (COMPOSE_FILE_NAMES.includes(name)) used = !facts.compose && readComposeFile(path, text, facts);
+    else if (LICENSE_FILE.test(name) && !facts.license?.file) {
+      facts.license = { id: facts.license?.id || identifyLicense(text), file: path };
+      used = true;
+    }
+    if (used) facts.sources.push(path);
+  });
+  return facts;
+};
+
+const codeBlock = (lines: string[]): string => {
+  return ['```bash', ...lines, '```'].join('\n');
+};
+
+// Up to `max` names in code spans, noting how many more there are
+const listNames = (names: string[], max = 12): string => {
+  const shown = names.slice(0, max).map(name => `\`${name}\``).join(', ');
+  return names.length > max ? `${shown} and ${names.length - max} more` : shown;
+};
+
+const escapeTableCell = (text: string): string => {
+  return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+};
+
+const RUN_SCRIPT: Record<NodePackageManager, string> = {
+  npm: 'npm run',
+  yarn: 'yarn',
+  pnpm: 'pnpm',
+  bun: 'bun run',
+};
+
+const installationSection = (facts: ProjectFacts, projectName: string): string => {
+  const steps: { label: string; commands: string[] }[] = [];
+  if (facts.node) steps.push({ label: "Node.js", commands: [`${facts.node.packageManager} install`] });
+  if (facts.python) {
+    steps.push({ label: "Python", commands: [facts.python.poetry ? 'poetry install' : 'pip install .'] });
+  }
+  if (facts.rust) steps.push({ label: "Rust", commands: ['cargo build --release'] });
+  if (facts.go) steps.push({ label: "Go", commands: ['go mod download', 'go build ./...'] });
+  if (facts.compose) {
+    const file = basenameOf(facts.compose.file);
+    const isDefaultName = file === 'compose.yaml' || file === 'docker-compose.yml';
+    steps.push({
+      label: "Docker Compose",
+      commands: [isDefaultName ? 'docker compose up' : `docker compose -f ${file} up`],
+    });
+  } else if (facts.docker) {
+    const image = projectName.toLowerCase().replace(/[^a-z0-9._-]+/g, '-');
+    const ports = facts.docker.ports.map(port => ` -p ${port.split('/')[0]}:${port.split('/')[0]}`).join('');
+    steps.push({ label: "Docker", commands: [`docker build -t ${image} .`, `docker run${ports} ${image}`] });
+  }
+  if (steps.length === 1) return codeBlock(steps[0].commands);
+  return steps.map(step => `With ${step.label}:\n\n${codeBlock(step.commands)}`).join('\n\n');
+};
+
+const scriptsSection = (facts: ProjectFacts): string => {
+  const rows: [string, string][] = [];
+  if (facts.node) {
+    const run = RUN_SCRIPT[facts.node.packageManager];
+    Object.entries(facts.node.scripts).forEach(([name, command]) => rows.push([`${run} ${name}`, command]));
+  }
+  if (facts.python) {
+    Object.entries(facts.python.scripts).forEach(([name, target]) => rows.push([name, target]));
+  }
+  if (rows.length === 0) return '';
+  return [
+    '| Command | Runs |',
+    '| --- | --- |',
+    ...rows.map(([command, runs]) => `| \`${escapeTableCell(command)}\` | \`${escapeTableCell(runs)}\` |`),
+  ].join('\n');
+};
+
+const techStackSection = (facts: ProjectFacts): string => {
+  const lines: string[] = [];
+  const { node, python, rust, go, docker, compose } = facts;
+  if (node) {
+    lines.push(`- Node.js${node.version ? ` ${node.version}` : ''}${node.typescript ? " with TypeScript" : ''}`);
+    if (node.dependencies.length > 0) lines.push(`- npm packages: ${listNames(node.dependencies)}`);
+  }
+  if (python) {
+    lines.push(`- Python${python.version ? ` ${python.version}` : ''}${python.poetry ? " with Poetry" : ''}`);
+    if (python.dependencies.length > 0) lines.push(`- Python packages: ${listNames(python.dependencies)}`);
+  }
+  if (rust) {
+    lines.push(`- Rust${rust.edition ? ` (${rust.edition} edition)` : ''}`);
+    if (rust.dependencies.length > 0) lines.push(`- Crates: ${listNames(rust.dependencies)}`);
+  }
+  if (go) {
+    lines.push(`- Go${go.version ? ` ${go.version}` : ''}`);
+    if (go.dependencies.length > 0) lines.push(`- Go modules: ${listNames(go.dependencies)}`);
+  }
+  if (docker) lines.push(`- Docker, based on ${listNames(docker.baseImages)}`);
+  if (compose) {
+    const services = compose.services.map(({ name, image }) => `\`${name}\`${image ? ` (\`${image}\`)` : ''}`);
+    lines.push(`- Docker Compose services: ${services.join(', ')}`);
+  }
+  return lines.join('\n');
+};
+
+const licenseSection = (facts: ProjectFacts): string => {
+  const { license } = facts;
+  if (!license) return '';
+  const link = license.file ? ` See [${basenameOf(license.file)}](${license.file}) for details.` : '';
+  if (license.id === 'UNLICENSED') return `This project is not licensed for use by others.${link}`;
+  if (license.id) return `Licensed under ${license.id}.${link}`;
+  return link.trim();
+};
+
+// Write the sections the facts support, in reading order. All start enabled.
+export const buildOverviewSections = (facts: ProjectFacts, projectName: string): OverviewSection[] => {
+  const hasInstallation = !!(facts.node || facts.python || facts.rust || facts.go || facts.docker || facts.compose);
+  const sections: [OverviewSectionId, string, string][] = [
+    ['about', "About", facts.description || ''],
+    ['installation', "Installation", hasInstallation ? installationSection(facts, projectName) : ''],
+    ['scripts', "Available Scripts", scriptsSection(facts)],
+    ['tech-stack', "Tech Stack", techStackSection(facts)],
+    ['license', "License", licenseSection(facts)],
+  ];
+  return sections
+    .filter(([, , content]) => content !== '')
+    .map(([id, title, content]) => ({ id, title, content, enabled: true }));
+};
+
+// The facts and sections of a project from its manifests. `paths` are the
+// project's paths starting with the root folder name, used to spot lockfiles.
+export const readOverview = (
+  manifests: Manifest[],
+  paths: string[],
+  rootFolder: string
+): { facts: ProjectFacts; sections: OverviewSection[] } => {
+  const rootPaths = paths
+    .filter(path => path.lastIndexOf('/') === rootFolder.length)
+    .map(path => path.slice(rootFolder.length + 1));
+  const facts = readProjectFacts(manifests, rootPaths);
+  return { facts, sections: buildOverviewSections(facts, rootFolder) };
+};
+
+// The enabled sections as Markdown, for the template's {{overview}}
+export const renderOverview = (sections: OverviewSection[]): string => {
+  return sections
+    .filter(section => section.enabled && section.content.trim())
+    .map(section => `## ${section.title.trim() || section.id}\n\n${section.content.trim()}`)
+    .join('\n\n');
+};
@@ -0,0 +1,198 @@
+// Reading a project from pasted text instead of a folder: the output of
+// `git ls-files`, `find . -type f`, or a `tree` listing, which is read back
+// into paths from its connectors.
+
+import type { SourceEntry } from './jobs';
+import type { TreeEntry } from './tree';
+
+export type PathListFormat = 'paths' | 'tree';
+
+export interface PathList {
+  format: PathListFormat;
+  // The root named on the first line of a tree listing, if any
+  rootFolder: string | null;
+  // File paths relative to the root folder
+  paths: string[];
+  // Empty folders, marked by a trailing `/`, and symlinks shown as `name -> target`
+  entries: TreeEntry[];
+}
+
+export const DEFAULT_PASTED_ROOT = 'project';
+
+// Box-drawing and ASCII connectors, as printed by `tree` and by this app
+const TREE_LINE = /^((?:[│|] {3}| {4})*)(?:├── |└── |\|-- |`-- )(.*)$/;
+
+// Sizes and counts this app prints after a name, such as " (2 files, 1.4 KB)"
+const STATS_SUFFIX = / \((?:[\d.,]+ (?:B|KB|MB|GB|TB|files?|lines?)(?:, |(?=\))))+\)$/;
+
+// Annotations this app lines up after a name
+const COMMENT_SUFFIX = /\s{2,}# .*$/;
+
+// Icons this app can put before a name
+const ICON_PREFIX = /^(?:📁|📄|🔗) /;
+
+// How `tree` and this app show a symlink
+const SYMLINK_SUFFIX = / -> (.*)$/;
+
+// Entries this app prints for collapsed folders, such as "… (12 files)"
+const COLLAPSED_ENTRY = /^… \(\d+ files?\)$/;
+
+// The totals `tree` prints last, such as "3 directories, 12 files"
+const TREE_SUMMARY = /^\d+ director(?:y|ies)(?:, \d+ files?)?$/;
+
+// Undo the C-style quoting git uses for paths with unusual characters,
+// including octal escapes for the bytes of non-ASCII names
+const unquoteGitPath = (line: string): string => {
+  if (line.length < 2 || !line.startsWith('"') || !line.endsWith('"')) return line;
+  const escapes: Record<string, number> = { a: 7, b: 8, t: 9, n: 10, v: 11, f: 12, r: 13, '"': 34, '\\': 92 };
+  const encoder = new TextEncoder();
+  const bytes: number[] = [];
+  const body = line.slice(1, -1);
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (char !== '\\') {
+      bytes.push(...encoder.encode(char));
+      continue;
+    }
+    const octal = /^[0-7]{3}/.exec(body.slice(i + 1));
+    if (octal) {
+      bytes.push(parseInt(octal[0], 8));
+      i += 3;
+    } else {
+      const next = body[i + 1] ?? '\\';
+      bytes.push(next in escapes ? escapes[next] : next.charCodeAt(0));
+      i += 1;
+    }
+  }
+  return new TextDecoder().decode(new Uint8Array(bytes));
+};
+
+const cleanSegments = (path: string): string[] => {
+  return path.split('/').filter(segment => segment !== '' && segment !== '.');
+};
+
+// A plain list of paths, one per line. Folders, as listed by `find` without
+// `-type f`, are recognised by having paths below them and left out; those
+// ending in `/` with nothing below them are kept as empty folders.
+const parsePaths = (lines: string[]): { paths: string[]; entries: TreeEntry[] } => {
+  const paths = new Set<string>();
+  const marked = new Set<string>();
+  lines.forEach(line => {
+    const path = cleanSegments(unquoteGitPath(line.trim())).join('/');
+    if (!path) return;
+    if (line.trim().endsWith('/')) marked.add(path);
+    else paths.add(path);
+  });
+  const folders = new Set<string>();
+  [...paths, ...marked].forEach(path => {
+    const segments = path.split('/');
+    for (let i = 1; i < segments.length; i++) folders.add(segments.slice(0, i).join('/'));
+  });
+  return {
+    paths: [...paths].filter(path => !folders.has(path)),
+    entries: [...marked]
+      .filter(path => !folders.has(path))
+      .map((path): TreeEntry => ({ path, type: 'directory' })),
+  };
+};
+
+interface TreeLine {
+  // One name, or several where a chain of single folders is folded into one line
+  segments: string[];
+  // Ends with `/`, as printed by `tree -F` or this app
+  folder: boolean;
+  target?: string;
+}
+
+// The name from a tree line, without what this app prints around it, split
+// into its path segments
+const readTreeLine = (text: string): TreeLine => {
+  let name = text.replace(COMMENT_SUFFIX, '').replace(STATS_SUFFIX, '').replace(ICON_PREFIX, '').trim();
+  const link = SYMLINK_SUFFIX.exec(name);
+  if (link) name = name.slice(0, link.index);
+  return {
+    segments: cleanSegments(name),
+    folder: !link && name.endsWith('/'),
+    target: link ? link[1] : undefined,
+  };
+};
+
+// A tree listing. An entry is a folder when the next entry sits deeper or it
+// ends with `/`; the others are files or symlinks.
+const parseTree = (lines: string[]): Omit<PathList, 'format'> => {
+  const entries: (TreeLine & { depth: number })[] = [];
+  let rootSegments: string[] = [];
+  let minIndent = Infinity;
+
+  lines.forEach(line => {
+    const match = TREE_LINE.exec(line);
+    if (!match) {
+      // The root is the line above the first entry
+      const text = line.trim();
+      if (entries.length === 0 && text && !TREE_SUMMARY.test(text)) {
+        rootSegments = readTreeLine(text).segments;
+      }
+      return;
+    }
+    const entry = readTreeLine(match[2]);
+    if (entry.segments.length === 0 || COLLAPSED_ENTRY.test(match[2].trim())) return;
+    const indent = match[1].length / 4;
+    minIndent = Math.min(minIndent, indent);
+    entries.push({ ...entry, depth: indent });
+  });
+
+  // `tree -f` prints whole paths, each starting with the path of the entry
+  // above it; otherwise a name with slashes is a chain of folded folders
+  const above: string[][] = [];
+  const wholePaths = entries.every(entry => {
+    above.length = Math.min(above.length, entry.depth - minIndent);
+    const parent = above.length > 0 ? above[above.length - 1] : rootSegments;
+    above.push(entry.segments);
+    return entry.segments.length > parent.length && parent.every((segment, i) => entry.segments[i] === segment);
+  });
+
+  const paths: string[] = [];
+  const treeEntries: TreeEntry[] = [];
+  const parents: string[][] = [];
+  entries.forEach((entry, index) => {
+    // This app indents the whole tree one level below the root
+    const depth = entry.depth - minIndent;
+    parents.length = Math.min(parents.length, depth);
+    const names = wholePaths ? entry.segments.slice(-1) : entry.segments;
+    const path = [...parents.flat(), ...names].join('/');
+    const next = entries[index + 1];
+    if (next && next.depth > entry.depth) {
+      parents.push(names);
+    } else if (entry.folder) {
+      treeEntries.push({ path, type: 'directory' });
+    } else if (entry.target !== undefined) {
+      treeEntries.push({ path, type: 'symlink', target: entry.target });
+    } else {
+      paths.push(path);
+    }
+  });
+  const rootFolder = rootSegments.length > 0 ? rootSegments[rootSegments.length - 1] : null;
+  return { rootFolder, paths, entries: treeEntries };
+};
+
+// Parse pasted text, telling tree listings from path lists by their connectors
+export const parsePathList = (text: string): PathList => {
+  // `tree` pads with non-breaking spaces; code fences come along when copying from a README
+  const lines = text
+    .replace(/\u00a0/g, ' ')
+    .split(/\r?\n/)
+    .filter(line => line.trim() !== '' && !line.trim().startsWith('```'));
+  if (lines.some(line => TREE_LINE.test(line))) {
+    return { format: 'tree', ...parseTree(lines) };
+  }
+  return { format: 'paths', rootFolder: null, ...parsePaths(lines) };
+};
+
+// Entries for the pasted paths, with paths starting at the root folder name
+// like those of a picked folder. There are no contents to read.
+export const pathListEntries = (list: PathList, rootFolder: string): SourceEntry[] => {
+  return [
+    ...list.paths.map(path => ({ path: `${rootFolder}/${path}` })),
+    ...list.entries.map(entry => ({ ...entry, path: `${rootFolder}/${entry.path}` })),
+  ];
+};
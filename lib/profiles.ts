@@ -0,0 +1,136 @@
+// Named sets of generation settings, kept in localStorage. A profile remembers
+// the root folders it was used with so it can be picked again automatically.
+
+import { normalizeSettings, type GenerationSettings } from './settings';
+
+export interface Profile {
+  name: string;
+  // Root folder names that load this profile when selected
+  rootFolders: string[];
+  settings: GenerationSettings;
+}
+
+// The shape of an exported profiles file
+interface ProfilesFile {
+  version: 1;
+  profiles: Profile[];
+}
+
+const PROFILES_KEY = 'folder-readme:profiles';
+const SESSION_SETTINGS_KEY = 'folder-readme:settings';
+const ACTIVE_PROFILE_KEY = 'folder-readme:active-profile';
+
+export const PROFILES_FILE_NAME = 'folder-readme-profiles.json';
+
+const readJson = (key: string): unknown => {
+  try {
+    return JSON.parse(localStorage.getItem(key) || 'null');
+  } catch {
+    return null;
+  }
+};
+
+// Storage can be full or, in private windows of some browsers, disabled
+const writeJson = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    throw new Error(`This browser could not keep your settings for the next visit: ${(error as Error).message}`);
+  }
+};
+
+// Check one entry of a stored or imported list, describing what is wrong
+const toProfile = (value: unknown, index: number): Profile => {
+  if (typeof value !== 'object' || value === null) {
+    throw new Error(`Profile ${index + 1} is not an object`);
+  }
+  const { name, rootFolders, settings } = value as Record<string, unknown>;
+  if (typeof name !== 'string' || name.trim() === '') {
+    throw new Error(`Profile ${index + 1} has no name`);
+  }
+  return {
+    name: name.trim(),
+    rootFolders: Array.isArray(rootFolders) ? rootFolders.filter(folder => typeof folder === 'string') : [],
+    settings: normalizeSettings(settings),
+  };
+};
+
+export const loadProfiles = (): Profile[] => {
+  const stored = readJson(PROFILES_KEY);
+  if (!Array.isArray(stored)) return [];
+  return stored.flatMap((value, index) => {
+    try {
+      return [toProfile(value, index)];
+    } catch {
+      return [];
+    }
+  });
+};
+
+export const storeProfiles = (profiles: Profile[]) => {
+  writeJson(PROFILES_KEY, profiles);
+};
+
+// The settings of the last session, so a reload picks up where it left off
+export const loadSessionSettings = (): GenerationSettings | null => {
+  const stored = readJson(SESSION_SETTINGS_KEY);
+  return stored === null ? null : normalizeSettings(stored);
+};
+
+export const storeSessionSettings = (settings: GenerationSettings) => {
+  writeJson(SESSION_SETTINGS_KEY, settings);
+};
+
+export const loadActiveProfileName = (): string | null => {
+  const stored = readJson(ACTIVE_PROFILE_KEY);
+  return typeof stored === 'string' ? stored : null;
+};
+
+export const storeActiveProfileName = (name: string | null) => {
+  writeJson(ACTIVE_PROFILE_KEY, name);
+};
+
+// Compare settings, ignoring the ids rules are given when they are loaded
+export const isSameSettings = (a: GenerationSettings, b: GenerationSettings): boolean => {
+  const comparable = (settings: GenerationSettings) => JSON.stringify({
+    ...settings,
+    includeRules: settings.includeRules.map(({ kind, pattern, enabled }) => ({ kind, pattern, enabled })),
+    excludeRules: settings.excludeRules.map(({ kind, pattern, enabled }) => ({ kind, pattern, enabled })),
+  });
+  return comparable(a) === comparable(b);
+};
+
+// Find the profile last used with a root folder of this name
+export const findProfileForFolder = (profiles: Profile[], rootFolder: string): Profile | null => {
+  return profiles.find(profile => profile.rootFolders.includes(rootFolder)) || null;
+};
+
+// Add or replace profiles by name, keeping the order of the existing ones
+export const mergeProfiles = (profiles: Profile[], added: Profile[]): Profile[] => {
+  const byName = new Map(added.map(profile => [profile.name, profile]));
+  const merged = profiles.map(profile => byName.get(profile.name) || profile);
+  added.forEach(profile => {
+    if (!profiles.some(existing => existing.name === profile.name)) merged.push(profile);
+  });
+  return merged;
+};
+
+export const exportProfiles = (profiles: Profile[]): string => {
+  const file: ProfilesFile = { version: 1, profiles };
+  return JSON.stringify(file, null, 2) + '\n';
+};
+
+// Read an exported profiles file. Throws an Error that says what is wrong.
+export const parseProfilesFile = (text: string): Profile[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`The file is not valid JSON: ${(error as Error).message}`);
+  }
+  const profiles = (parsed as Partial<ProfilesFile> | null)?.profiles;
+  if (!Array.isArray(profiles)) {
+    throw new Error('The file has no "profiles" list');
+  }
+  return profiles.map(toProfile);
+};
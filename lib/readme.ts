@@ -0,0 +1,94 @@
+// Updating the structure section of an existing README in place. The section
+// lives between two marker comments, so later runs can find and replace it.
+
+export const STRUCTURE_START_MARKER = '<!-- folder-structure:start -->';
+export const STRUCTURE_END_MARKER = '<!-- folder-structure:end -->';
+
+export interface MarkdownHeading {
+  // 0-based line index of the heading
+  line: number;
+  level: number;
+  text: string;
+}
+
+// Find the project's README among the selected paths, which start with the
+// root folder name
+export const findReadmePath = (paths: string[], rootFolder: string): string | null => {
+  // Only the file name's case may differ; the root folder is matched exactly
+  const prefix = `${rootFolder}/`;
+  return paths.find(path => path.startsWith(prefix) && path.slice(prefix.length).toLowerCase() === 'readme.md') || null;
+};
+
+// List the ATX headings (`## Title`) outside of fenced code blocks
+export const findHeadings = (markdown: string): MarkdownHeading[] => {
+  const headings: MarkdownHeading[] = [];
+  let fence: string | null = null;
+  markdown.split('\n').forEach((rawLine, line) => {
+    const text = rawLine.replace(/\r$/, '');
+    const fenceMatch = text.match(/^\s{0,3}(`{3,}|~{3,})/);
+    if (fenceMatch) {
+      if (fence === null) {
+        fence = fenceMatch[1];
+      } else if (fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+        fence = null;
+      }
+      return;
+    }
+    if (fence !== null) return;
+    const headingMatch = text.match(/^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/);
+    if (headingMatch) {
+      headings.push({ line, level: headingMatch[1].length, text: headingMatch[2] });
+    }
+  });
+  return headings;
+};
+
+// Find the text between the markers. Returns character offsets of the
+// content, or null when the README has no complete marker pair.
+export const findStructureBlock = (markdown: string): { start: number; end: number } | null => {
+  const startIndex = markdown.indexOf(STRUCTURE_START_MARKER);
+  if (startIndex === -1) return null;
+  const start = startIndex + STRUCTURE_START_MARKER.length;
+  const end = markdown.indexOf(STRUCTURE_END_MARKER, start);
+  return end === -1 ? null : { start, end };
+};
+
+// Get the content currently between the markers, without surrounding blank lines
+export const extractStructureBlock = (markdown: string): string | null => {
+  const block = findStructureBlock(markdown);
+  return block ? markdown.slice(block.start, block.end).replace(/^\s*\n|\n\s*$/g, '') : null;
+};
+
+const wrapBlock = (block: string): string => {
+  return `${STRUCTURE_START_MARKER}\n${block}\n${STRUCTURE_END_MARKER}`;
+};
+
+// Replace what sits between the markers with the new block
+export const replaceStructureBlock = (markdown: string, block: string): string => {
+  const found = findStructureBlock(markdown);
+  if (!found) return markdown;
+  return markdown.slice(0, found.start) + `\n${block}\n` + markdown.slice(found.end);
+};
+
+// Insert the block, wrapped in markers, below a heading, or at the end of
+// the file when `headingLine` is null
+export const insertStructureBlock = (markdown: string, block: string, headingLine: number | null): string => {
+  const wrapped = wrapBlock(block);
+  if (headingLine === null) {
+    const trimmed = markdown.replace(/\s*$/, '');
+    return (trimmed ? `${trimmed}\n\n` : '') + `${wrapped}\n`;
+  }
+  const lines = markdown.split('\n');
+  const nextLine = lines[headingLine + 1];
+  const spacing = nextLine === undefined || nextLine.trim() === '' ? [] : [''];
+  lines.splice(headingLine + 1, 0, '', wrapped, ...spacing);
+  return lines.join('\n');
+};
+
+// Merge the block into the README: between existing markers when there are
+// some, otherwise under the chosen heading
+export const mergeIntoReadme = (markdown: string, block: string, headingLine: number | null): string => {
+  return findStructureBlock(markdown)
+    ? replaceStructureBlock(markdown, block)
+    : insertStructureBlock(markdown, block, headingLine);
+};
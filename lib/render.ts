@@ -0,0 +1,274 @@
+// Renderers that turn the folder tree into text. Every style walks the same
+// tree in the same order; they only differ in how each entry is written.
+
+import { limitTree, type LimitOptions } from './limits';
+import type { SortOptions } from './sort';
+import {
+  describeDirectory,
+  describeFile,
+  rollUpStats,
+  type DirectoryStats,
+  type FileStats,
+  type StatsOptions,
+} from './stats';
+import { isDirectory, removePaths, rootEntries, sortedKeys, type FileTree, type NodeType, type TreeNode } from './tree';
+
+export type OutputStyle = 'unicode' | 'ascii' | 'markdown' | 'html' | 'outline';
+
+export type DirectoryStyle = 'plain' | 'slash' | 'icon';
+
+export const OUTPUT_STYLE_LABELS: Record<OutputStyle, string> = {
+  unicode: "Unicode tree (├──)",
+  ascii: "ASCII tree (|--)",
+  markdown: "Markdown list",
+  html: "Collapsible HTML (<details>)",
+  outline: "Indented outline",
+};
+
+export const DIRECTORY_STYLE_LABELS: Record<DirectoryStyle, string> = {
+  plain: "Plain names",
+  slash: "Trailing slash (src/)",
+  icon: "Icons (📁 src)",
+};
+
+const NODE_ICONS: Record<NodeType, string> = {
+  directory: '📁 ',
+  file: '📄 ',
+  symlink: '🔗 ',
+  collapsed: '',
+};
+
+export interface RenderOptions extends SortOptions, LimitOptions, StatsOptions {
+  outputStyle: OutputStyle;
+  // How folders stand out from files in the text styles; lists and HTML
+  // always mark them with a slash
+  directoryStyle: DirectoryStyle;
+  // Paths relative to the root folder that were unticked in the preview
+  manualExclusions: string[];
+  // Descriptions shown next to entries, keyed by path relative to the root folder
+  annotations: Record<string, string>;
+}
+
+// Everything a renderer needs besides the tree itself
+interface RenderContext {
+  options: RenderOptions;
+  // File sizes and line counts, keyed by path relative to the root folder
+  fileStats: Record<string, FileStats>;
+  directoryStats: Map<string, DirectoryStats>;
+  hasLineCounts: boolean;
+}
+
+// A rendered line, with the annotation to print after it in text styles
+interface RenderLine {
+  text: string;
+  comment?: string;
+}
+
+interface Connectors {
+  branch: string;
+  last: string;
+  pipe: string;
+  space: string;
+}
+
+export const CONNECTORS: Record<'unicode' | 'ascii', Connectors> = {
+  unicode: { branch: '├── ', last: '└── ', pipe: '│   ', space: '    ' },
+  ascii: { branch: '|-- ', last: '`-- ', pipe: '|   ', space: '    ' },
+};
+
+// Get the name of an entry with its markers: an icon or trailing slash as
+// chosen, and where a symlink points
+const displayName = (context: RenderContext, key: string, node: TreeNode, slash: boolean): string => {
+  const { directoryStyle } = context.options;
+  let name = directoryStyle === 'icon' ? NODE_ICONS[node.type] + key : key;
+  if (slash && directoryStyle === 'slash' && isDirectory(node)) name += '/';
+  if (node.type === 'symlink') name += node.target !== undefined ? ` -> ${node.target}` : ' (symlink)';
+  return name;
+};
+
+// Get the annotation for a path, collapsed onto a single line
+const annotationFor = (context: RenderContext, path: string): string | undefined => {
+  const annotation = context.options.annotations[path];
+  return annotation ? annotation.replace(/\s+/g, ' ').trim() || undefined : undefined;
+};
+
+// Get the size and count suffix for an entry
+const statsFor = (context: RenderContext, path: string, directory: boolean): string => {
+  return directory
+    ? describeDirectory(context.directoryStats.get(path), context.options, context.hasLineCounts)
+    : describeFile(context.fileStats[path], context.options);
+};
+
+// Convert the tree object to lines with box-drawing or ASCII connectors
+const treeToLines = (tree: FileTree, context: RenderContext, prefix: string, indent: string, lines: RenderLine[]) => {
+  const connectors = context.options.outputStyle === 'ascii' ? CONNECTORS.ascii : CONNECTORS.unicode;
+  const keys = sortedKeys(tree, context.options);
+  keys.forEach((key, index) => {
+    const isLast = index === keys.length - 1;
+    const path = prefix + key;
+    const node = tree[key];
+    const directory = isDirectory(node);
+    lines.push({
+      text:
+        indent +
+        (isLast ? connectors.last : connectors.branch) +
+        displayName(context, key, node, true) +
+        statsFor(context, path, directory),
+      comment: annotationFor(context, path),
+    });
+    if (directory) {
+      const childIndent = indent + (isLast ? connectors.space : connectors.pipe);
+      treeToLines(node.children, context, path + '/', childIndent, lines);
+    }
+  });
+};
+
+// Plain indentation, two spaces per level
+const treeToOutline = (tree: FileTree, context: RenderContext, prefix: string, indent: string, lines: RenderLine[]) => {
+  sortedKeys(tree, context.options).forEach(key => {
+    const path = prefix + key;
+    const node = tree[key];
+    lines.push({
+      text: indent + displayName(context, key, node, true) + statsFor(context, path, isDirectory(node)),
+      comment: annotationFor(context, path),
+    });
+    treeToOutline(node.children, context, path + '/', indent + '  ', lines);
+  });
+};
+
+const escapeMarkdown = (text: string): string => {
+  return text.replace(/[\\`*_[\]<>#|]/g, '\\$&');
+};
+
+// Nested bullet list, with folders in bold
+const treeToMarkdown = (tree: FileTree, context: RenderContext, prefix: string, indent: string, lines: RenderLine[]) => {
+  sortedKeys(tree, context.options).forEach(key => {
+    const path = prefix + key;
+    const node = tree[key];
+    const directory = isDirectory(node);
+    const name = escapeMarkdown(displayName(context, key, node, false));
+    const stats = escapeMarkdown(statsFor(context, path, directory));
+    const annotation = annotationFor(context, path);
+    const comment = annotation ? ` — ${escapeMarkdown(annotation)}` : '';
+    lines.push({ text: `${indent}- ${directory ? `**${name}/**` : name}${stats}${comment}` });
+    treeToMarkdown(node.children, context, path + '/', indent + '  ', lines);
+  });
+};
+
+const escapeHtml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+};
+
+// One collapsible <details> block per folder, files as list items
+const treeToHtml = (tree: FileTree, context: RenderContext, prefix: string, indent: string, lines: RenderLine[]) => {
+  lines.push({ text: `${indent}<ul>` });
+  sortedKeys(tree, context.options).forEach(key => {
+    const path = prefix + key;
+    const node = tree[key];
+    const directory = isDirectory(node);
+    const name = escapeHtml(displayName(context, key, node, false));
+    const stats = escapeHtml(statsFor(context, path, directory));
+    const annotation = annotationFor(context, path);
+    const comment = annotation ? ` <em>— ${escapeHtml(annotation)}</em>` : '';
+    if (directory && Object.keys(node.children).length === 0) {
+      // Nothing to expand in an empty folder
+      lines.push({ text: `${indent}  <li>${name}/${stats}${comment}</li>` });
+    } else if (directory) {
+      lines.push({ text: `${indent}  <li><details>` });
+      lines.push({ text: `${indent}    <summary>${name}/${stats}${comment}</summary>` });
+      treeToHtml(node.children, context, path + '/', indent + '    ', lines);
+      lines.push({ text: `${indent}  </details></li>` });
+    } else {
+      lines.push({ text: `${indent}  <li>${name}${stats}${comment}</li>` });
+    }
+  });
+  lines.push({ text: `${indent}</ul>` });
+};
+
+// Count characters rather than UTF-16 units, so box-drawing lines align
+const textWidth = (text: string): number => {
+  return Array.from(text).length;
+};
+
+// Join the lines, lining up every comment two spaces after the longest
+// annotated line
+const joinLines = (lines: RenderLine[]): string => {
+  let column = 0;
+  lines.forEach(line => {
+    if (line.comment) column = Math.max(column, textWidth(line.text) + 2);
+  });
+  return lines
+    .map(line => {
+      if (!line.comment) return line.text;
+      return line.text + ' '.repeat(column - textWidth(line.text)) + '# ' + line.comment;
+    })
+    .join('\n');
+};
+
+// Remove the manual exclusions from the children of the root folder
+export const visibleTree = (tree: FileTree, rootFolder: string, options: RenderOptions): FileTree => {
+  return removePaths(rootEntries(tree, rootFolder), options.manualExclusions);
+};
+
+// Render the structure below the root folder, headed by the root folder name.
+// `collapsedPaths` are folders, relative to the root folder, shown collapsed.
+export const renderStructure = (
+  tree: FileTree,
+  rootFolder: string,
+  options: RenderOptions,
+  fileStats: Record<string, FileStats> = {},
+  collapsedPaths: string[] = []
+): string => {
+  const visible = visibleTree(tree, rootFolder, options);
+  const context: RenderContext = {
+    options,
+    fileStats,
+    // Totals come from the full tree, so collapsed folders still add up
+    directoryStats: rollUpStats(visible, fileStats),
+    hasLineCounts: Object.values(fileStats).some(stats => stats.lines !== undefined),
+  };
+  const pinned = new Set([...Object.keys(options.annotations), ...collapsedPaths]);
+  const rootTree = limitTree(visible, options, pinned, new Set(collapsedPaths));
+  const lines: RenderLine[] = [];
+  const rootName = displayName(context, rootFolder, { type: 'directory', children: {} }, true);
+  switch (options.outputStyle) {
+    case 'markdown':
+      lines.push({ text: `- **${escapeMarkdown(rootFolder)}/**` });
+      treeToMarkdown(rootTree, context, '', '  ', lines);
+      break;
+    case 'html':
+      lines.push({ text: '<details open>' });
+      lines.push({ text: `  <summary>${escapeHtml(rootFolder)}/</summary>` });
+      treeToHtml(rootTree, context, '', '  ', lines);
+      lines.push({ text: '</details>' });
+      break;
+    case 'outline':
+      lines.push({ text: rootName });
+      treeToOutline(rootTree, context, '', '  ', lines);
+      break;
+    default:
+      lines.push({ text: rootName });
+      // Use only the children of the root folder with an initial indent of 4 spaces
+      treeToLines(rootTree, context, '', '    ', lines);
+  }
+  return joinLines(lines);
+};
+
+// Wrap a rendered structure for a Markdown document. Text trees need a code
+// fence; lists and HTML are Markdown already. The Unicode tree keeps the
+// `bash` fence that earlier READMEs were generated with.
+export const formatStructureBlock = (structure: string, style: OutputStyle): string => {
+  switch (style) {
+    case 'markdown':
+    case 'html':
+      return structure;
+    case 'unicode':
+      return '```bash\n' + structure + '\n```';
+    default:
+      return '```text\n' + structure + '\n```';
+  }
+};
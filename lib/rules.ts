@@ -0,0 +1,232 @@
+// Include and exclude rules typed by the user, matched against paths relative
+// to the project root. A rule is a name matched at any depth, one path from
+// the root, or a gitignore-style glob.
+
+import { compilePattern, type CompiledPattern } from './gitignore';
+
+export type RuleKind = 'name' | 'path' | 'pattern';
+
+export const RULE_KIND_LABELS: Record<RuleKind, string> = {
+  name: "Name",
+  path: "Path",
+  pattern: "Pattern",
+};
+
+export const RULE_KIND_DESCRIPTIONS: Record<RuleKind, string> = {
+  name: "A file or folder name, matched at any depth",
+  path: "One file or folder, relative to the project root",
+  pattern: "A gitignore-style glob",
+};
+
+export interface PatternRule {
+  id: string;
+  kind: RuleKind;
+  pattern: string;
+  enabled: boolean;
+}
+
+// The folders we always used to hide, now editable and individually switchable.
+// Build output and native app folders only count at the root, so a nested
+// `src/components/build` stays visible.
+export const DEFAULT_EXCLUDE_RULES: { kind: RuleKind; pattern: string }[] = [
+  { kind: 'name', pattern: 'node_modules' },
+  { kind: 'name', pattern: '.git' },
+  { kind: 'name', pattern: '.DS_Store' },
+  { kind: 'path', pattern: '.expo' },
+  { kind: 'path', pattern: 'android' },
+  { kind: 'path', pattern: 'ios' },
+  { kind: 'path', pattern: 'build' },
+  { kind: 'path', pattern: '.next' },
+];
+
+let nextRuleId = 0;
+
+export const createRule = (pattern: string, enabled = true, kind: RuleKind = 'pattern'): PatternRule => {
+  nextRuleId += 1;
+  return { id: `rule-${Date.now()}-${nextRuleId}`, kind, pattern, enabled };
+};
+
+export const createDefaultExcludeRules = (): PatternRule[] => {
+  return DEFAULT_EXCLUDE_RULES.map(({ kind, pattern }) => createRule(pattern, true, kind));
+};
+
+// Check a rule of any kind for mistakes. Returns an error message, or null when valid.
+export const validateRule = (pattern: string, kind: RuleKind): string | null => {
+  if (kind === 'pattern') return validatePattern(pattern);
+  const value = pattern.trim().replace(/^!/, '');
+  if (value.replace(/^\/+|\/+$/g, '') === '') {
+    return kind === 'name' ? 'Name is empty' : 'Path is empty';
+  }
+  if (kind === 'name' && value.includes('/')) {
+    return 'A name cannot contain /; use a path or a pattern';
+  }
+  if (value.split('/').includes('..')) {
+    return 'Parent directory segments (..) are not supported';
+  }
+  return null;
+};
+
+// Check a pattern for mistakes. Returns an error message, or null when valid.
+export const validatePattern = (pattern: string): string | null => {
+  const glob = pattern.trim().replace(/^!/, '');
+  if (glob === '' || glob === '/') {
+    return 'Pattern is empty';
+  }
+  if (glob.startsWith('#')) {
+    return 'Patterns starting with # are comments; escape it as \\#';
+  }
+  if (glob.split('/').includes('..')) {
+    return 'Parent directory segments (..) are not supported';
+  }
+  if (/(^|[^\\])(\\\\)*\\$/.test(glob)) {
+    return 'Pattern ends with an unfinished escape (\\)';
+  }
+  if (/\*{3,}/.test(glob) || /[^/]\*\*|\*\*[^/]/.test(glob)) {
+    return '** must be a whole path segment, like src/**/test';
+  }
+  let inBracket = false;
+  for (let i = 0; i < glob.length; i++) {
+    if (glob[i] === '\\') {
+      i++;
+    } else if (glob[i] === '[' && !inBracket) {
+      inBracket = true;
+      // A `]` right after `[` or `[!` is a literal
+      if (glob[i + 1] === '!' || glob[i + 1] === '^') i++;
+      if (glob[i + 1] === ']') i++;
+    } else if (glob[i] === ']' && inBracket) {
+      inBracket = false;
+    } else if (glob[i] === '/' && inBracket) {
+      return 'A character class cannot contain /';
+    }
+  }
+  if (inBracket) {
+    return 'Unclosed character class [';
+  }
+  return null;
+};
+
+interface ActiveRule extends CompiledPattern {
+  rule: PatternRule;
+  // Memoized results for directories, which many paths share
+  dirMatches: Map<string, boolean>;
+}
+
+const escapeRegExp = (text: string): string => {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+};
+
+// Names and paths are matched literally; a leading `!` still negates them
+const compileRule = ({ kind, pattern }: PatternRule): CompiledPattern | null => {
+  const trimmed = pattern.trim();
+  if (kind === 'pattern') return compilePattern(trimmed);
+  const negated = trimmed.startsWith('!');
+  const value = escapeRegExp(trimmed.replace(/^!/, '').replace(/^\/+|\/+$/g, ''));
+  const source = kind === 'name' ? `(?:.*/)?${value}` : value;
+  return { negated, dirOnly: false, regex: new RegExp(`^${source}$`) };
+};
+
+const compileRules = (rules: PatternRule[]): ActiveRule[] => {
+  const active: ActiveRule[] = [];
+  rules.forEach(rule => {
+    if (!rule.enabled || validateRule(rule.pattern, rule.kind)) return;
+    const compiled = compileRule(rule);
+    if (compiled) {
+      active.push({ rule, ...compiled, dirMatches: new Map() });
+    }
+  });
+  return active;
+};
+
+// Check a rule against a directory and every directory above it
+const matchesDir = (rule: ActiveRule, dirPath: string): boolean => {
+  let matched = rule.dirMatches.get(dirPath);
+  if (matched === undefined) {
+    const index = dirPath.lastIndexOf('/');
+    matched = rule.regex.test(dirPath) || (index !== -1 && matchesDir(rule, dirPath.slice(0, index)));
+    rule.dirMatches.set(dirPath, matched);
+  }
+  return matched;
+};
+
+// A rule matches a file when it matches the file itself or any folder above it
+const matchesFile = (rule: ActiveRule, path: string): boolean => {
+  const index = path.lastIndexOf('/');
+  if (index !== -1 && matchesDir(rule, path.slice(0, index))) return true;
+  return !rule.dirOnly && rule.regex.test(path);
+};
+
+// The outermost folder, or the path itself, that a rule matched
+const matchedPathOf = (rule: ActiveRule, path: string): string => {
+  for (let index = path.indexOf('/'); index !== -1; index = path.indexOf('/', index + 1)) {
+    if (rule.regex.test(path.slice(0, index))) return path.slice(0, index);
+  }
+  return path;
+};
+
+// Why a path is excluded: the exclude rule that matched it or a folder above
+// it, or no rule when the include rules did not pick it
+export interface RuleExclusion {
+  rule: PatternRule | null;
+  // Relative to the project root; a folder stands for everything below it
+  matchedPath: string;
+}
+
+// Build a filter for file paths relative to the project root. Unlike
+// .gitignore, a later `!` rule can bring back files inside an excluded folder,
+// because the last rule matching the file or one of its folders decides.
+// When any include rule exists, only files picked by the includes are kept.
+export const createRuleFilter = (includeRules: PatternRule[], excludeRules: PatternRule[]) => {
+  const includes = compileRules(includeRules);
+  const excludes = compileRules(excludeRules);
+  const hasIncludes = includes.some(rule => !rule.negated);
+  const matchCounts: Record<string, number> = {};
+
+  // Evaluate a list of rules in order, counting every rule that matched
+  const evaluate = (rules: ActiveRule[], path: string, isDir: boolean): boolean | undefined => {
+    let result: boolean | undefined;
+    rules.forEach(rule => {
+      if (isDir ? matchesDir(rule, path) : matchesFile(rule, path)) {
+        matchCounts[rule.rule.id] = (matchCounts[rule.rule.id] || 0) + 1;
+        result = !rule.negated;
+      }
+    });
+    return result;
+  };
+
+  // Folders are only passed in when empty, so they are shown on their own
+  const isExcluded = (path: string, isDir = false): boolean => {
+    const included = evaluate(includes, path, isDir);
+    const excluded = evaluate(excludes, path, isDir);
+    if (hasIncludes && !included) return true;
+    return excluded === true;
+  };
+
+  // Whether everything below a folder is excluded, so a walk can skip it.
+  // Never true while a `!` rule could bring something back.
+  const canReinclude = excludes.some(rule => rule.negated);
+  const isDirExcluded = (dirPath: string): boolean => {
+    return !canReinclude && excludes.some(rule => matchesDir(rule, dirPath));
+  };
+
+  // The last rule matching a path, without counting it
+  const lastMatch = (rules: ActiveRule[], path: string, isDir: boolean): ActiveRule | undefined => {
+    let last: ActiveRule | undefined;
+    rules.forEach(rule => {
+      if (isDir ? matchesDir(rule, path) : matchesFile(rule, path)) last = rule;
+    });
+    return last;
+  };
+
+  // Tell why a path is excluded, or null when it is kept
+  const explain = (path: string, isDir = false): RuleExclusion | null => {
+    if (hasIncludes) {
+      const include = lastMatch(includes, path, isDir);
+      if (!include || include.negated) return { rule: null, matchedPath: path };
+    }
+    const exclude = lastMatch(excludes, path, isDir);
+    if (!exclude || exclude.negated) return null;
+    return { rule: exclude.rule, matchedPath: matchedPathOf(exclude, path) };
+  };
+
+  return { isExcluded, isDirExcluded, explain, matchCounts };
+};
@@ -0,0 +1,25 @@
+// README templates saved in this browser, kept apart from lib/template.ts so
+// the template engine has no browser dependencies
+
+export interface SavedTemplate {
+  name: string;
+  template: string;
+}
+
+const SAVED_TEMPLATES_KEY = 'folder-readme:templates';
+
+// Read the templates saved in this browser
+export const loadSavedTemplates = (): SavedTemplate[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SAVED_TEMPLATES_KEY) || '[]');
+    return Array.isArray(stored)
+      ? stored.filter((entry): entry is SavedTemplate => typeof entry?.name === 'string' && typeof entry?.template === 'string')
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+export const storeSavedTemplates = (templates: SavedTemplate[]) => {
+  localStorage.setItem(SAVED_TEMPLATES_KEY, JSON.stringify(templates));
+};
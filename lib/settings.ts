@@ -0,0 +1,130 @@
+// Options that control how the folder structure is generated
+
+import { DIRECTORY_STYLE_LABELS, OUTPUT_STYLE_LABELS, type RenderOptions } from './render';
+import { createDefaultExcludeRules, createRule, RULE_KIND_LABELS, type PatternRule, type RuleKind } from './rules';
+import { SORT_MODE_LABELS } from './sort';
+import { DEFAULT_TEMPLATE } from './template';
+
+export interface GenerationSettings extends RenderOptions {
+  // Hide whatever the project's .gitignore files hide
+  respectGitignore: boolean;
+  // Also read .ignore and .dockerignore files
+  useExtraIgnoreFiles: boolean;
+  // When not empty, only files matching these globs are shown
+  includeRules: PatternRule[];
+  // Globs for paths to hide; starts with the folders we always hid
+  excludeRules: PatternRule[];
+  // Read text files to count their lines
+  countLines: boolean;
+  // The README template, see lib/template.ts
+  template: string;
+  // Fill the footer variable with a link to this generator
+  includeFooter: boolean;
+  // File name for the downloaded README; empty uses the root folder name
+  outputFileName: string;
+}
+
+export const DEFAULT_SETTINGS: GenerationSettings = {
+  respectGitignore: true,
+  useExtraIgnoreFiles: false,
+  includeRules: [],
+  excludeRules: createDefaultExcludeRules(),
+  sortMode: 'alphabetical',
+  directoriesFirst: true,
+  caseSensitive: false,
+  outputStyle: 'unicode',
+  directoryStyle: 'plain',
+  maxDepth: 0,
+  collapseThreshold: 0,
+  foldSingleChildDirs: false,
+  manualExclusions: [],
+  annotations: {},
+  showSizes: false,
+  showDirectoryTotals: false,
+  includeStatsSummary: false,
+  countLines: false,
+  template: DEFAULT_TEMPLATE,
+  includeFooter: true,
+  outputFileName: '',
+};
+
+// Pick the settings that only change how an already built tree is rendered
+export const pickRenderOptions = (settings: GenerationSettings): RenderOptions => {
+  const {
+    sortMode,
+    directoriesFirst,
+    caseSensitive,
+    outputStyle,
+    directoryStyle,
+    maxDepth,
+    collapseThreshold,
+    foldSingleChildDirs,
+    manualExclusions,
+    annotations,
+    showSizes,
+    showDirectoryTotals,
+    includeStatsSummary,
+  } = settings;
+  return {
+    sortMode,
+    directoriesFirst,
+    caseSensitive,
+    outputStyle,
+    directoryStyle,
+    maxDepth,
+    collapseThreshold,
+    foldSingleChildDirs,
+    manualExclusions,
+    annotations,
+    showSizes,
+    showDirectoryTotals,
+    includeStatsSummary,
+  };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+// Read rules saved as objects, giving them fresh ids. Rules saved before
+// there were kinds are patterns.
+const toRules = (value: unknown[]): PatternRule[] => {
+  return value
+    .filter((rule): rule is { pattern: string; enabled?: unknown; kind?: unknown } => {
+      return isRecord(rule) && typeof rule.pattern === 'string';
+    })
+    .map(rule => {
+      const kind = typeof rule.kind === 'string' && rule.kind in RULE_KIND_LABELS ? (rule.kind as RuleKind) : 'pattern';
+      return createRule(rule.pattern, rule.enabled !== false, kind);
+    });
+};
+
+// Turn stored or imported settings back into complete settings. Unknown keys
+// are dropped and values of the wrong type fall back to the defaults, so
+// settings saved by an older version still load.
+export const normalizeSettings = (value: unknown): GenerationSettings => {
+  const settings: GenerationSettings = { ...DEFAULT_SETTINGS, excludeRules: createDefaultExcludeRules() };
+  if (!isRecord(value)) return settings;
+  const target = settings as unknown as Record<string, unknown>;
+  for (const key of Object.keys(DEFAULT_SETTINGS) as (keyof GenerationSettings)[]) {
+    const fallback = DEFAULT_SETTINGS[key];
+    const stored = value[key];
+    if (key === 'includeRules' || key === 'excludeRules') {
+      if (Array.isArray(stored)) target[key] = toRules(stored);
+    } else if (key === 'manualExclusions') {
+      if (Array.isArray(stored)) target[key] = stored.filter(path => typeof path === 'string');
+    } else if (key === 'annotations') {
+      if (isRecord(stored)) {
+        target[key] = Object.fromEntries(Object.entries(stored).filter(([, text]) => typeof text === 'string'));
+      }
+    } else if (key === 'outputStyle' || key === 'sortMode' || key === 'directoryStyle') {
+      const labels = { outputStyle: OUTPUT_STYLE_LABELS, sortMode: SORT_MODE_LABELS, directoryStyle: DIRECTORY_STYLE_LABELS }[key];
+      if (typeof stored === 'string' && stored in labels) target[key] = stored;
+    } else if (typeof fallback === 'number') {
+      if (typeof stored === 'number' && Number.isInteger(stored) && stored >= 0) target[key] = stored;
+    } else if (typeof stored === typeof fallback) {
+      target[key] = stored;
+    }
+  }
+  return settings;
+};
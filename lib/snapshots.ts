@@ -0,0 +1,106 @@
+// Structure snapshots: the files and folders of a preview saved as JSON, so a
+// later preview can be compared against them. An archive of an older release
+// can stand in for a snapshot too.
+
+import { archiveEntries, defaultArchiveRoot, isArchiveName, startArchiveRead } from './archives';
+import type { TreeResult } from './jobs';
+import type { GenerationSettings } from './settings';
+import { isDirectory, rootEntries, type FileTree } from './tree';
+import { startGenerateJob, startScanJob, type WorkerJob } from './worker-client';
+
+const SNAPSHOT_FORMAT = 'folder-readme-snapshot';
+const SNAPSHOT_VERSION = 1;
+
+export interface SnapshotFile {
+  // Relative to the root folder
+  path: string;
+  // Unknown for pasted paths and symlinks
+  size?: number;
+}
+
+export interface StructureSnapshot {
+  rootFolder: string;
+  // When the snapshot was taken, as an ISO date
+  createdAt: string;
+  // Files and symlinks
+  files: SnapshotFile[];
+  // Empty folders, relative to the root folder
+  folders: string[];
+}
+
+export const snapshotFileName = (rootFolder: string): string => {
+  return `${rootFolder}.structure.json`;
+};
+
+// Take a snapshot of a built tree, before any paths are unticked in the preview
+export const snapshotFromTree = (result: TreeResult, date = new Date()): StructureSnapshot => {
+  const files: SnapshotFile[] = [];
+  const folders: string[] = [];
+  const walk = (tree: FileTree, prefix: string) => {
+    Object.keys(tree).forEach(name => {
+      const path = prefix + name;
+      const node = tree[name];
+      if (isDirectory(node)) {
+        if (Object.keys(node.children).length === 0) folders.push(path);
+        walk(node.children, `${path}/`);
+      } else {
+        const size = result.fileStats[path]?.size;
+        files.push(size === undefined || node.type === 'symlink' ? { path } : { path, size });
+      }
+    });
+  };
+  walk(rootEntries(result.tree, result.rootFolder), '');
+  return { rootFolder: result.rootFolder, createdAt: date.toISOString(), files, folders };
+};
+
+export const formatSnapshot = (snapshot: StructureSnapshot): string => {
+  return JSON.stringify({ format: SNAPSHOT_FORMAT, version: SNAPSHOT_VERSION, ...snapshot }, null, 2) + '\n';
+};
+
+// Read a snapshot saved by formatSnapshot. Throws an Error describing what is wrong.
+export const parseSnapshot = (text: string, fileName: string): StructureSnapshot => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`${fileName} is not valid JSON (${(error as Error).message})`);
+  }
+  const record = (typeof data === 'object' && data !== null ? data : {}) as Record<string, unknown>;
+  if (record.format !== SNAPSHOT_FORMAT) throw new Error(`${fileName} is not a structure snapshot`);
+  if (record.version !== SNAPSHOT_VERSION) {
+    throw new Error(`${fileName} is a snapshot of version ${String(record.version)}, which is not supported`);
+  }
+  const files = Array.isArray(record.files) ? record.files : null;
+  const folders = Array.isArray(record.folders) ? record.folders : null;
+  const isFile = (file: unknown): file is SnapshotFile => {
+    const entry = file as SnapshotFile;
+    return typeof entry === 'object' && entry !== null && typeof entry.path === 'string'
+      && (entry.size === undefined || typeof entry.size === 'number');
+  };
+  if (
+    typeof record.rootFolder !== 'string' ||
+    typeof record.createdAt !== 'string' ||
+    !files || !files.every(isFile) ||
+    !folders || !folders.every(folder => typeof folder === 'string')
+  ) {
+    throw new Error(`${fileName} is a damaged structure snapshot`);
+  }
+  return { rootFolder: record.rootFolder, createdAt: record.createdAt, files, folders };
+};
+
+const finishJob = async <T>(job: WorkerJob<T>): Promise<T> => {
+  const result = await job.promise;
+  if (result === null) throw new DOMException('Loading the snapshot was cancelled', 'AbortError');
+  return result;
+};
+
+// Load a snapshot file, or take a snapshot of an archive with the current
+// settings, as if it had been opened as the project
+export const loadSnapshot = async (file: File, settings: GenerationSettings): Promise<StructureSnapshot> => {
+  if (!isArchiveName(file.name)) return parseSnapshot(await file.text(), file.name);
+  const noProgress = () => {};
+  const archive = await finishJob(startArchiveRead(file, noProgress));
+  const scan = await finishJob(startScanJob(archiveEntries(archive, defaultArchiveRoot(archive)), noProgress));
+  const result = await finishJob(startGenerateJob(scan, settings, noProgress));
+  return snapshotFromTree(result, new Date(file.lastModified));
+};
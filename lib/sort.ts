@@ -0,0 +1,52 @@
+// Deterministic ordering of tree entries. Names are compared by code point,
+// never with the browser locale, so every machine gets byte-identical output.
+
+export type SortMode = 'alphabetical' | 'natural';
+
+export interface SortOptions {
+  sortMode: SortMode;
+  directoriesFirst: boolean;
+  caseSensitive: boolean;
+}
+
+export const SORT_MODE_LABELS: Record<SortMode, string> = {
+  alphabetical: "Alphabetical",
+  natural: "Natural (file2 before file10)",
+};
+
+const compareStrings = (a: string, b: string): number => {
+  return a < b ? -1 : a > b ? 1 : 0;
+};
+
+// Compare two runs of digits by numeric value, without parsing them into
+// numbers so long runs cannot overflow
+const compareDigits = (a: string, b: string): number => {
+  const trimmedA = a.replace(/^0+(?=\d)/, '');
+  const trimmedB = b.replace(/^0+(?=\d)/, '');
+  return trimmedA.length - trimmedB.length || compareStrings(trimmedA, trimmedB);
+};
+
+const compareNatural = (a: string, b: string): number => {
+  const chunksA = a.match(/\d+|\D+/g) || [];
+  const chunksB = b.match(/\d+|\D+/g) || [];
+  const length = Math.min(chunksA.length, chunksB.length);
+  for (let i = 0; i < length; i++) {
+    const chunkA = chunksA[i];
+    const chunkB = chunksB[i];
+    const bothDigits = /^\d/.test(chunkA) && /^\d/.test(chunkB);
+    const result = bothDigits ? compareDigits(chunkA, chunkB) : compareStrings(chunkA, chunkB);
+    if (result !== 0) return result;
+  }
+  return chunksA.length - chunksB.length;
+};
+
+// Compare two entry names. Ties in the case-insensitive and natural orders
+// fall back to a plain comparison, so the order is always total.
+export const compareNames = (a: string, b: string, options: SortOptions): number => {
+  const compare = options.sortMode === 'natural' ? compareNatural : compareStrings;
+  if (!options.caseSensitive) {
+    const result = compare(a.toLowerCase(), b.toLowerCase());
+    if (result !== 0) return result;
+  }
+  return compare(a, b) || compareStrings(a, b);
+};
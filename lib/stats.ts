@@ -0,0 +1,204 @@
+// File sizes, line counts and the per-language summary. Numbers are formatted
+// by hand rather than with the browser locale, so output stays identical
+// across machines.
+
+import { basenameOf } from './gitignore';
+import { isDirectory, type FileTree } from './tree';
+
+export interface FileStats {
+  size?: number;
+  // Only set for text files, when line counting is enabled
+  lines?: number;
+}
+
+export interface DirectoryStats {
+  files: number;
+  size: number;
+  lines: number;
+}
+
+export interface StatsOptions {
+  showSizes: boolean;
+  // Show file counts and rolled-up totals next to folders
+  showDirectoryTotals: boolean;
+  // Append a table of totals by language to the README
+  includeStatsSummary: boolean;
+}
+
+export interface LanguageStats {
+  language: string;
+  files: number;
+  lines: number;
+  size: number;
+}
+
+// Extensions that are never counted as text
+const BINARY_EXTENSIONS = new Set([
+  'png', 'jpg', 'jpeg', 'gif', 'bmp', 'ico', 'icns', 'webp', 'avif', 'tif', 'tiff', 'psd', 'svg', 'heic',
+  'zip', 'tar', 'gz', 'tgz', 'bz2', 'xz', '7z', 'rar', 'jar', 'war', 'apk', 'ipa', 'dmg', 'iso',
+  'pdf', 'doc', 'docx', 'xls', 'xlsx', 'ppt', 'pptx',
+  'woff', 'woff2', 'ttf', 'otf', 'eot',
+  'mp3', 'mp4', 'm4a', 'mov', 'avi', 'mkv', 'wav', 'ogg', 'flac', 'webm',
+  'exe', 'dll', 'so', 'dylib', 'bin', 'wasm', 'class', 'o', 'a', 'obj', 'pyc',
+  'db', 'sqlite', 'sqlite3',
+]);
+
+const LANGUAGES: Record<string, string> = {
+  ts: 'TypeScript', tsx: 'TypeScript', mts: 'TypeScript', cts: 'TypeScript',
+  js: 'JavaScript', jsx: 'JavaScript', mjs: 'JavaScript', cjs: 'JavaScript',
+  py: 'Python', rb: 'Ruby', go: 'Go', rs: 'Rust', java: 'Java', kt: 'Kotlin', kts: 'Kotlin',
+  swift: 'Swift', c: 'C', h: 'C', cpp: 'C++', cc: 'C++', cxx: 'C++', hpp: 'C++', cs: 'C#',
+  php: 'PHP', dart: 'Dart', scala: 'Scala', lua: 'Lua', ex: 'Elixir', exs: 'Elixir',
+  vue: 'Vue', svelte: 'Svelte', html: 'HTML', htm: 'HTML',
+  css: 'CSS', scss: 'SCSS', sass: 'Sass', less: 'Less',
+  json: 'JSON', yaml: 'YAML', yml: 'YAML', toml: 'TOML', xml: 'XML',
+  md: 'Markdown', mdx: 'Markdown', sh: 'Shell', bash: 'Shell', zsh: 'Shell', sql: 'SQL',
+};
+
+const extensionOf = (path: string): string => {
+  const name = basenameOf(path);
+  const index = name.lastIndexOf('.');
+  return index > 0 ? name.slice(index + 1).toLowerCase() : '';
+};
+
+export const isBinaryPath = (path: string): boolean => {
+  return BINARY_EXTENSIONS.has(extensionOf(path));
+};
+
+// Name the language of a file from its extension
+export const languageOf = (path: string): string => {
+  const extension = extensionOf(path);
+  if (!extension) return 'Other';
+  return LANGUAGES[extension] || `.${extension}`;
+};
+
+// Count the lines of a file, or return undefined when it looks binary
+export const countLines = async (file: Blob): Promise<number | undefined> => {
+  const head = new Uint8Array(await file.slice(0, 8000).arrayBuffer());
+  if (head.includes(0)) return undefined;
+  const text = await file.text();
+  if (text === '') return 0;
+  let lines = 1;
+  for (let i = text.indexOf('\n'); i !== -1; i = text.indexOf('\n', i + 1)) {
+    if (i < text.length - 1) lines++;
+  }
+  return lines;
+};
+
+// Format a byte count as B, KB, MB or GB
+export const formatSize = (bytes: number): string => {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  const rounded = unit === 0 || value >= 100 ? Math.round(value).toString() : value.toFixed(1).replace(/\.0$/, '');
+  return `${rounded} ${units[unit]}`;
+};
+
+// Format a count compactly, such as 950, 38k or 1.2M
+export const formatCount = (count: number): string => {
+  if (count < 1000) return count.toString();
+  if (count < 1000000) return (count / 1000).toFixed(count < 10000 ? 1 : 0).replace(/\.0$/, '') + 'k';
+  return (count / 1000000).toFixed(1).replace(/\.0$/, '') + 'M';
+};
+
+const plural = (count: number, word: string): string => {
+  return `${formatCount(count)} ${count === 1 ? word : word + 's'}`;
+};
+
+// Roll file stats up into every folder, keyed by path relative to the root
+export const rollUpStats = (tree: FileTree, fileStats: Record<string, FileStats>): Map<string, DirectoryStats> => {
+  const totals = new Map<string, DirectoryStats>();
+  const walk = (node: FileTree, prefix: string): DirectoryStats => {
+    const total: DirectoryStats = { files: 0, size: 0, lines: 0 };
+    for (const key of Object.keys(node)) {
+      const path = prefix + key;
+      const child = node[key];
+      if (isDirectory(child)) {
+        const childTotal = walk(child.children, path + '/');
+        totals.set(path, childTotal);
+        total.files += childTotal.files;
+        total.size += childTotal.size;
+        total.lines += childTotal.lines;
+      } else {
+        const stats = fileStats[path] || {};
+        total.files += 1;
+        total.size += stats.size || 0;
+        total.lines += stats.lines || 0;
+      }
+    }
+    return total;
+  };
+  walk(tree, '');
+  return totals;
+};
+
+// The suffix printed after a file name, such as "(1.2 KB, 40 lines)"
+export const describeFile = (stats: FileStats | undefined, options: StatsOptions): string => {
+  const parts: string[] = [];
+  if (options.showSizes && stats?.size !== undefined) parts.push(formatSize(stats.size));
+  if (stats?.lines !== undefined) parts.push(plural(stats.lines, 'line'));
+  return parts.length > 0 ? ` (${parts.join(', ')})` : '';
+};
+
+// The suffix printed after a folder name, such as "(12 files, 48 KB)"
+export const describeDirectory = (
+  stats: DirectoryStats | undefined,
+  options: StatsOptions,
+  hasLineCounts: boolean
+): string => {
+  if (!stats || !options.showDirectoryTotals) return '';
+  const parts = [plural(stats.files, 'file')];
+  if (options.showSizes) parts.push(formatSize(stats.size));
+  if (hasLineCounts) parts.push(plural(stats.lines, 'line'));
+  return ` (${parts.join(', ')})`;
+};
+
+// Total the files below a tree by language, largest first
+export const summarizeByLanguage = (tree: FileTree, fileStats: Record<string, FileStats>): LanguageStats[] => {
+  const byLanguage = new Map<string, LanguageStats>();
+  const walk = (node: FileTree, prefix: string) => {
+    for (const key of Object.keys(node)) {
+      const path = prefix + key;
+      const child = node[key];
+      if (isDirectory(child)) {
+        walk(child.children, path + '/');
+        continue;
+      }
+      const language = languageOf(path);
+      const stats = fileStats[path] || {};
+      const entry = byLanguage.get(language) || { language, files: 0, lines: 0, size: 0 };
+      entry.files += 1;
+      entry.lines += stats.lines || 0;
+      entry.size += stats.size || 0;
+      byLanguage.set(language, entry);
+    }
+  };
+  walk(tree, '');
+  return Array.from(byLanguage.values()).sort(
+    (a, b) => b.files - a.files || b.lines - a.lines || (a.language < b.language ? -1 : 1)
+  );
+};
+
+// Format the language totals as a Markdown table
+export const formatStatsSummary = (languages: LanguageStats[], hasLineCounts: boolean): string => {
+  const header = hasLineCounts ? '| Language | Files | Lines | Size |' : '| Language | Files | Size |';
+  const divider = hasLineCounts ? '| --- | ---: | ---: | ---: |' : '| --- | ---: | ---: |';
+  const rows = languages.map(({ language, files, lines, size }) => {
+    const cells = [language.replace(/\|/g, '\\|'), formatCount(files)];
+    if (hasLineCounts) cells.push(formatCount(lines));
+    cells.push(formatSize(size));
+    return `| ${cells.join(' | ')} |`;
+  });
+  const total = languages.reduce(
+    (sum, entry) => ({ files: sum.files + entry.files, lines: sum.lines + entry.lines, size: sum.size + entry.size }),
+    { files: 0, lines: 0, size: 0 }
+  );
+  const totalCells = ['**Total**', formatCount(total.files)];
+  if (hasLineCounts) totalCells.push(formatCount(total.lines));
+  totalCells.push(formatSize(total.size));
+  return [header, divider, ...rows, `| ${totalCells.join(' | ')} |`].join('\n');
+};
@@ -0,0 +1,247 @@
+// Comparing two structure snapshots: which paths were added or removed, and
+// which files were moved or renamed, written out as a marked-up tree.
+
+import { basenameOf, dirnameOf } from './gitignore';
+import { CONNECTORS } from './render';
+import type { StructureSnapshot } from './snapshots';
+import type { SortOptions } from './sort';
+import { buildTree, isDirectory, sortedKeys, type FileTree } from './tree';
+
+export type ChangeKind = 'added' | 'removed' | 'moved' | 'renamed';
+
+export interface StructureChange {
+  kind: ChangeKind;
+  // Relative to the root folder; where a moved or renamed file is now
+  path: string;
+  // Where a moved or renamed file was before
+  from?: string;
+  // Empty folders are compared too; other folders follow from their files
+  folder: boolean;
+}
+
+export interface StructureDiff {
+  changes: StructureChange[];
+  // Files at the same path in both snapshots
+  unchanged: number;
+}
+
+export const CHANGE_KIND_LABELS: Record<ChangeKind, string> = {
+  added: "added",
+  removed: "removed",
+  moved: "moved",
+  renamed: "renamed",
+};
+
+// The marker in front of each line of the diff tree
+const CHANGE_MARKERS: Record<ChangeKind, string> = {
+  added: '+',
+  removed: '-',
+  moved: '~',
+  renamed: '~',
+};
+
+const commonFolderLength = (a: string, b: string): number => {
+  const partsA = dirnameOf(a).split('/');
+  const partsB = dirnameOf(b).split('/');
+  let length = 0;
+  while (length < partsA.length && partsA[length] && partsA[length] === partsB[length]) length++;
+  return length;
+};
+
+// Every folder holding a file or empty folder of the snapshot
+const foldersOf = (snapshot: StructureSnapshot): Set<string> => {
+  const folders = new Set<string>();
+  const addParents = (path: string) => {
+    const parts = path.split('/');
+    for (let i = 1; i < parts.length; i++) folders.add(parts.slice(0, i).join('/'));
+  };
+  snapshot.files.forEach(file => addParents(file.path));
+  snapshot.folders.forEach(folder => {
+    folders.add(folder);
+    addParents(folder);
+  });
+  return folders;
+};
+
+// Pair each removed file with an added one it most likely became: one in the
+// same bucket, by name for moves and by folder for renames. Sizes must match
+// when both are known; without sizes a pairing is only trusted when there is
+// a single candidate.
+const pairFiles = (
+  removed: string[],
+  added: string[],
+  sizeBefore: Map<string, number | undefined>,
+  sizeAfter: Map<string, number | undefined>,
+  bucketOf: (path: string) => string
+): Map<string, string> => {
+  // Added files by bucket and size, so each removed file only looks at its own
+  const buckets = new Map<string, string[]>();
+  added.forEach(to => {
+    const key = `${bucketOf(to)}\n${sizeAfter.get(to)}`;
+    const bucket = buckets.get(key);
+    if (bucket) bucket.push(to);
+    else buckets.set(key, [to]);
+  });
+
+  const pairs = new Map<string, string>();
+  removed.forEach(from => {
+    const size = sizeBefore.get(from);
+    const candidates = buckets.get(`${bucketOf(from)}\n${size}`);
+    if (!candidates || candidates.length === 0 || (size === undefined && candidates.length > 1)) return;
+    // The candidate sharing the most folders with the old path
+    let best = 0;
+    candidates.forEach((candidate, index) => {
+      if (commonFolderLength(from, candidate) > commonFolderLength(from, candidates[best])) best = index;
+    });
+    pairs.set(from, candidates[best]);
+    candidates.splice(best, 1);
+  });
+  return pairs;
+};
+
+// Compare two snapshots. A file that left one folder and turned up in another
+// under the same name and size was moved; one that changed its name but kept
+// its folder and a non-zero size was renamed.
+export const diffSnapshots = (before: StructureSnapshot, after: StructureSnapshot): StructureDiff => {
+  const sizeBefore = new Map(before.files.map(file => [file.path, file.size]));
+  const sizeAfter = new Map(after.files.map(file => [file.path, file.size]));
+  const removed = before.files.map(file => file.path).filter(path => !sizeAfter.has(path));
+  const added = after.files.map(file => file.path).filter(path => !sizeBefore.has(path));
+
+  const moves = pairFiles(removed, added, sizeBefore, sizeAfter, basenameOf);
+  const movedTo = new Set(moves.values());
+  const renamedFrom = removed.filter(path => !moves.has(path));
+  const renamedTo = added.filter(path => !movedTo.has(path));
+  const renames = pairFiles(
+    renamedFrom.filter(path => (sizeBefore.get(path) ?? 0) > 0),
+    renamedTo,
+    sizeBefore,
+    sizeAfter,
+    dirnameOf
+  );
+  const paired = new Set([...moves.values(), ...renames.values()]);
+
+  const changes: StructureChange[] = [
+    ...added.filter(path => !paired.has(path)).map(path => ({ kind: 'added' as const, path, folder: false })),
+    ...removed
+      .filter(path => !moves.has(path) && !renames.has(path))
+      .map(path => ({ kind: 'removed' as const, path, folder: false })),
+    ...[...moves].map(([from, path]) => ({ kind: 'moved' as const, path, from, folder: false })),
+    ...[...renames].map(([from, path]) => ({ kind: 'renamed' as const, path, from, folder: false })),
+  ];
+
+  const allBefore = foldersOf(before);
+  const allAfter = foldersOf(after);
+  after.folders
+    .filter(folder => !allBefore.has(folder))
+    .forEach(path => changes.push({ kind: 'added', path, folder: true }));
+  before.folders
+    .filter(folder => !allAfter.has(folder))
+    .forEach(path => changes.push({ kind: 'removed', path, folder: true }));
+
+  changes.sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+  return { changes, unchanged: before.files.length - removed.length };
+};
+
+export const countChanges = (diff: StructureDiff): Record<ChangeKind, number> => {
+  const counts: Record<ChangeKind, number> = { added: 0, removed: 0, moved: 0, renamed: 0 };
+  diff.changes.forEach(change => counts[change.kind]++);
+  return counts;
+};
+
+// Write the diff as a tree of both snapshots together, each line led by `+`
+// for added paths, `-` for removed ones, `~` for moved or renamed files and a
+// space for the rest. Folders that only exist on one side are marked like
+// their files. With changedOnly, folders without changes are left out.
+export const renderDiffTree = (
+  diff: StructureDiff,
+  before: StructureSnapshot,
+  after: StructureSnapshot,
+  sort: SortOptions,
+  changedOnly: boolean
+): string => {
+  const removedFiles = diff.changes.filter(change => change.kind === 'removed' && !change.folder).map(change => change.path);
+  const tree = buildTree(
+    [...after.files.map(file => file.path), ...removedFiles],
+    [...after.folders, ...before.folders].map(path => ({ path, type: 'directory' as const }))
+  );
+
+  const markers = new Map<string, string>();
+  const notes = new Map<string, string>();
+  diff.changes.forEach(change => {
+    markers.set(change.path, CHANGE_MARKERS[change.kind]);
+    if (change.from) notes.set(change.path, `  ← ${change.from}`);
+  });
+  const allBefore = foldersOf(before);
+  const allAfter = foldersOf(after);
+  allAfter.forEach(folder => {
+    if (!allBefore.has(folder)) markers.set(folder, CHANGE_MARKERS.added);
+  });
+  allBefore.forEach(folder => {
+    if (!allAfter.has(folder)) markers.set(folder, CHANGE_MARKERS.removed);
+  });
+
+  // Folders holding a change, so they stay when unchanged paths are left out
+  const changedFolders = new Set<string>();
+  markers.forEach((_marker, path) => {
+    const parts = path.split('/');
+    for (let i = 1; i < parts.length; i++) changedFolders.add(parts.slice(0, i).join('/'));
+  });
+
+  const { pipe, space, branch, last } = CONNECTORS.unicode;
+  const lines = [`  ${after.rootFolder}/`];
+  const walk = (node: FileTree, prefix: string, indent: string) => {
+    const keys = sortedKeys(node, sort).filter(key => {
+      const path = prefix + key;
+      return !changedOnly || markers.has(path) || changedFolders.has(path);
+    });
+    keys.forEach((key, index) => {
+      const path = prefix + key;
+      const child = node[key];
+      const isLast = index === keys.length - 1;
+      const name = isDirectory(child) ? `${key}/` : key;
+      lines.push(`${markers.get(path) ?? ' '} ${indent}${isLast ? last : branch}${name}${notes.get(path) ?? ''}`);
+      if (isDirectory(child)) walk(child.children, `${path}/`, indent + (isLast ? space : pipe));
+    });
+  };
+  walk(tree, '', '');
+  return lines.join('\n');
+};
+
+const describeSnapshot = (snapshot: StructureSnapshot): string => {
+  return `\`${snapshot.rootFolder}\` (${snapshot.createdAt.slice(0, 10)})`;
+};
+
+// The counts of each kind of change, such as "3 added, 1 removed"
+export const summarizeDiff = (diff: StructureDiff): string => {
+  const counts = countChanges(diff);
+  const parts = (Object.keys(counts) as ChangeKind[])
+    .filter(kind => counts[kind] > 0)
+    .map(kind => `${counts[kind]} ${CHANGE_KIND_LABELS[kind]}`);
+  return parts.length > 0 ? parts.join(', ') : "no changes";
+};
+
+// Write the diff as a Markdown section for release notes and pull requests.
+// The tree goes in a `diff` block so added and removed lines are colored.
+export const formatDiffMarkdown = (
+  diff: StructureDiff,
+  treeText: string,
+  before: StructureSnapshot,
+  after: StructureSnapshot
+): string => {
+  const lines = [
+    '## Structure changes',
+    '',
+    `Compared ${describeSnapshot(before)} with ${describeSnapshot(after)}: ${summarizeDiff(diff)}.`,
+  ];
+  if (diff.changes.length === 0) return lines.join('\n') + '\n';
+  lines.push('', '```diff', treeText, '```');
+  const relocated = diff.changes.filter(change => change.from);
+  if (relocated.length > 0) {
+    lines.push('', '| Change | From | To |', '| --- | --- | --- |');
+    relocated.forEach(change => {
+      lines.push(`| ${CHANGE_KIND_LABELS[change.kind]} | \`${change.from}\` | \`${change.path}\` |`);
+    });
+  }
+  return lines.join('\n') + '\n';
+};
@@ -0,0 +1,46 @@
+// Runs scan, generate and render jobs off the main thread. Every message posted back
+// is a WorkerResponse; progress is reported in batches while a job runs.
+
+import {
+  generatePackageTrees,
+  generateTree,
+  renderTree,
+  renderTrees,
+  scanProject,
+  type ProgressCallback,
+  type WorkerRequest,
+  type WorkerResponse,
+} from './jobs';
+
+const ctx = self as unknown as Worker;
+
+const respond = (response: WorkerResponse) => {
+  ctx.postMessage(response);
+};
+
+const reportProgress: ProgressCallback = (phase, done, total) => {
+  respond({ type: 'progress', phase, done, total });
+};
+
+ctx.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+  try {
+    if (request.type === 'scan') {
+      const scan = await scanProject(request.entries, reportProgress);
+      respond({ type: 'scanned', scan });
+    } else if (request.type === 'generate') {
+      const result = await generateTree(request.scan, request.settings, reportProgress);
+      respond({ type: 'generated', result });
+    } else if (request.type === 'generate-packages') {
+      const results = await generatePackageTrees(request.scan, request.packages, reportProgress);
+      respond({ type: 'packages-generated', results });
+    } else if (request.type === 'render-many') {
+      respond({ type: 'rendered-many', rendered: renderTrees(request.requests, reportProgress) });
+    } else {
+      const rendered = renderTree(request.tree, request.rootFolder, request.options, request.fileStats, reportProgress);
+      respond({ type: 'rendered', rendered });
+    }
+  } catch (error) {
+    respond({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,249 @@
+// README templates. A template is Markdown with `{{variable}}` placeholders
+// and `{{#if variable}} … {{else}} … {{/if}}` sections (`#unless` is the
+// inverse). Lines holding only a section tag are dropped entirely, so
+// sections don't leave blank lines behind.
+
+export const GENERATED_WITH_URL = 'https://generatereadme.pages.dev/';
+
+export interface TemplateVariables {
+  projectName: string;
+  // The structure, already wrapped for Markdown
+  tree: string;
+  fileCount: number;
+  date: string;
+  // The language table; empty when statistics are turned off
+  stats: string;
+  // Sections written from the project's manifests; empty when there are none
+  overview: string;
+  // The "generated with" link; empty when the footer is turned off
+  footer: string;
+}
+
+export const TEMPLATE_VARIABLES: Record<keyof TemplateVariables, string> = {
+  projectName: "Name of the root folder",
+  tree: "The folder structure",
+  fileCount: "Number of files shown",
+  date: "Today's date (YYYY-MM-DD)",
+  stats: "Table of totals by language",
+  overview: "About, installation, scripts, tech stack and license, from the project's manifests",
+  footer: "Link to this generator",
+};
+
+export type TemplatePresetId = 'classic' | 'minimal' | 'overview' | 'docs';
+
+const OVERVIEW_SECTION = `{{#if overview}}
+{{overview}}
+
+{{/if}}`;
+
+const FOOTER_SECTION = `{{#if footer}}
+## generated with
+
+\`\`\`text
+{{footer}}
+\`\`\`
+{{/if}}`;
+
+export const TEMPLATE_PRESETS: Record<TemplatePresetId, { label: string; template: string }> = {
+  classic: {
+    label: "Classic",
+    template: `# Project File and Folder Structure
+
+${OVERVIEW_SECTION}
+Below is the structure of the project:
+
+{{tree}}
+
+{{#if stats}}
+## Statistics
+
+{{stats}}
+
+{{/if}}
+${FOOTER_SECTION}
+`,
+  },
+  minimal: {
+    label: "Minimal",
+    template: `# {{projectName}}
+
+${OVERVIEW_SECTION}
+{{tree}}
+{{#if footer}}
+
+Generated with {{footer}}
+{{/if}}
+`,
+  },
+  overview: {
+    label: "Full project overview",
+    template: `# {{projectName}}
+
+> Overview of the project as of {{date}}.
+
+${OVERVIEW_SECTION}
+## Contents
+
+- [Structure](#structure)
+{{#if stats}}
+- [Statistics](#statistics)
+{{/if}}
+
+## Structure
+
+The project has {{fileCount}} files:
+
+{{tree}}
+
+{{#if stats}}
+## Statistics
+
+{{stats}}
+
+{{/if}}
+${FOOTER_SECTION}
+`,
+  },
+  docs: {
+    label: "Docs-site page",
+    template: `---
+title: Project structure
+description: Files and folders of {{projectName}}
+---
+
+# Project structure
+
+{{tree}}
+
+${OVERVIEW_SECTION}
+{{#if stats}}
+## Languages
+
+{{stats}}
+
+{{/if}}
+_{{fileCount}} files, last updated {{date}}._
+{{#if footer}}
+
+_Generated with [folder-readme]({{footer}})._
+{{/if}}
+`,
+  },
+};
+
+export const DEFAULT_TEMPLATE = TEMPLATE_PRESETS.classic.template;
+
+// Today's date as YYYY-MM-DD, in local time
+export const formatDate = (date: Date): string => {
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+type TemplateNode =
+  | { kind: 'text'; text: string }
+  | { kind: 'variable'; name: keyof TemplateVariables }
+  | { kind: 'section'; name: keyof TemplateVariables; inverted: boolean; body: TemplateNode[]; otherwise: TemplateNode[] };
+
+const TAG_PATTERN = /\{\{\s*(#if|#unless|\/if|\/unless|else(?=\s*\}\}))?\s*([A-Za-z_]\w*)?\s*\}\}/g;
+
+// Drop the line break and indentation around section tags that stand alone on a line
+const stripStandaloneTags = (template: string): string => {
+  return template.replace(/^[ \t]*(\{\{\s*(?:#if|#unless|\/if|\/unless|else)\b[^}]*\}\})[ \t]*\r?\n/gm, '$1');
+};
+
+const toVariableName = (name: string | undefined, tag: string): keyof TemplateVariables => {
+  if (!name) throw new Error(`${tag} needs a variable name`);
+  if (!(name in TEMPLATE_VARIABLES)) throw new Error(`Unknown variable "${name}" in ${tag}`);
+  return name as keyof TemplateVariables;
+};
+
+type SectionNode = Extract<TemplateNode, { kind: 'section' }>;
+
+// Parse a template into nodes, or throw an Error that describes the problem
+const parseTemplate = (template: string): TemplateNode[] => {
+  const source = stripStandaloneTags(template);
+  const root: TemplateNode[] = [];
+  // Open sections, innermost last
+  const stack: { section: SectionNode; tag: string; inElse: boolean }[] = [];
+  const current = (): TemplateNode[] => {
+    const open = stack[stack.length - 1];
+    if (!open) return root;
+    return open.inElse ? open.section.otherwise : open.section.body;
+  };
+  let position = 0;
+
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    const [tag, keyword, name] = match;
+    const index = match.index || 0;
+    if (index > position) current().push({ kind: 'text', text: source.slice(position, index) });
+    position = index + tag.length;
+
+    if (!keyword) {
+      current().push({ kind: 'variable', name: toVariableName(name, tag) });
+    } else if (keyword === '#if' || keyword === '#unless') {
+      const section: SectionNode = {
+        kind: 'section',
+        name: toVariableName(name, tag),
+        inverted: keyword === '#unless',
+        body: [],
+        otherwise: [],
+      };
+      current().push(section);
+      stack.push({ section, tag: keyword, inElse: false });
+    } else if (keyword === 'else') {
+      const open = stack[stack.length - 1];
+      if (!open || open.inElse) throw new Error("{{else}} without a matching {{#if}}");
+      open.inElse = true;
+    } else {
+      const open = stack.pop();
+      const opening = `#${keyword.slice(1)}`;
+      if (!open || open.tag !== opening) throw new Error(`${tag} without a matching {{${opening}}}`);
+    }
+  }
+  const unclosed = stack[stack.length - 1];
+  if (unclosed) throw new Error(`{{${unclosed.tag} ${unclosed.section.name}}} is never closed`);
+  if (position < source.length) root.push({ kind: 'text', text: source.slice(position) });
+  return root;
+};
+
+const isSet = (value: string | number): boolean => {
+  return typeof value === 'number' ? value > 0 : value.trim() !== '';
+};
+
+const renderNodes = (nodes: TemplateNode[], variables: TemplateVariables): string => {
+  return nodes
+    .map(node => {
+      switch (node.kind) {
+        case 'text':
+          return node.text;
+        case 'variable':
+          return String(variables[node.name]);
+        case 'section':
+          return isSet(variables[node.name]) !== node.inverted
+            ? renderNodes(node.body, variables)
+            : renderNodes(node.otherwise, variables);
+      }
+    })
+    .join('');
+};
+
+// Fill in a template, ending the document with a single line break. Throws
+// when the template is malformed.
+export const renderTemplate = (template: string, variables: TemplateVariables): string => {
+  return renderNodes(parseTemplate(template), variables).replace(/\s*$/, '\n');
+};
+
+// Whether a template shows a variable anywhere
+export const usesVariable = (template: string, name: keyof TemplateVariables): boolean => {
+  return new RegExp(`\\{\\{\\s*${name}\\s*\\}\\}`).test(template);
+};
+
+// Check a template, returning an error message or null when it is valid
+export const validateTemplate = (template: string): string | null => {
+  try {
+    parseTemplate(template);
+    return null;
+  } catch (error) {
+    return (error as Error).message;
+  }
+};
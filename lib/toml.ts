@@ -0,0 +1,70 @@
+// Just enough TOML for reading manifests such as pyproject.toml and Cargo.toml
+
+export type TomlTables = Record<string, Record<string, string>>;
+
+// Drop a `#` comment, unless it sits inside a string
+const stripTomlComment = (line: string): string => {
+  let quote: string | null = null;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') i++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '#') {
+      return line.slice(0, i);
+    }
+  }
+  return line;
+};
+
+const bracketDepth = (text: string): number => {
+  const stripped = text.replace(/"(?:[^"\\]|\\.)*"|'[^']*'/g, '');
+  return (stripped.match(/[[{]/g) || []).length - (stripped.match(/[\]}]/g) || []).length;
+};
+
+// Read the tables of a TOML file, keeping each value as written. Enough for
+// the names, versions and lists in manifests, not a full TOML parser.
+export const readTomlTables = (text: string): TomlTables => {
+  const tables: TomlTables = { '': {} };
+  let table = tables[''];
+  const lines = text.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const line = stripTomlComment(lines[i]).trim();
+    const header = /^\[\[?\s*([^\]]+?)\s*\]\]?$/.exec(line);
+    if (header) {
+      const name = header[1].replace(/["']/g, '');
+      table = tables[name] = tables[name] || {};
+      continue;
+    }
+    const pair = /^("[^"]*"|'[^']*'|[A-Za-z0-9_.-]+)\s*=\s*(.*)$/.exec(line);
+    if (!pair) continue;
+    let value = pair[2];
+    // Arrays, inline tables and multi-line strings carry on over the next lines
+    if (value.startsWith('"""') || value.startsWith("'''")) {
+      const quotes = value.slice(0, 3);
+      while (value.indexOf(quotes, 3) === -1 && i + 1 < lines.length) value += `\n${lines[++i]}`;
+    } else {
+      while (bracketDepth(value) > 0 && i + 1 < lines.length) value += ` ${stripTomlComment(lines[++i]).trim()}`;
+    }
+    table[pair[1].replace(/["']/g, '')] = value;
+  }
+  return tables;
+};
+
+// The text of a TOML string value, or undefined when it is not a string
+export const tomlString = (value: string | undefined): string | undefined => {
+  if (value === undefined) return undefined;
+  const multiLine = /^("""|''')\r?\n?([\s\S]*?)\1/.exec(value);
+  if (multiLine) return multiLine[2].trim();
+  const quoted = /^"((?:[^"\\]|\\.)*)"|^'([^']*)'/.exec(value);
+  if (!quoted) return undefined;
+  return quoted[2] ?? quoted[1].replace(/\\(.)/g, (_match, char: string) => (char === 'n' ? '\n' : char));
+};
+
+// The strings in a TOML array
+export const tomlStrings = (value: string | undefined): string[] => {
+  if (!value || !value.startsWith('[')) return [];
+  return [...value.matchAll(/"((?:[^"\\]|\\.)*)"|'([^']*)'/g)].map(match => match[2] ?? match[1]);
+};
@@ -0,0 +1,124 @@
+// Building the folder tree from a flat list of file paths
+
+import { compareNames, type SortOptions } from './sort';
+
+// `collapsed` stands in for the hidden entries of a folder cut short by the limits
+export type NodeType = 'file' | 'directory' | 'symlink' | 'collapsed';
+
+export interface TreeNode {
+  type: NodeType;
+  // Entries of a directory; empty for every other type
+  children: FileTree;
+  // Where a symlink points, when the source reports it
+  target?: string;
+}
+
+// The entries of a folder by name
+export interface FileTree {
+  [name: string]: TreeNode;
+}
+
+// A folder or symlink reported by the source next to its files. Only empty
+// folders need reporting; the others follow from the paths below them.
+export interface TreeEntry {
+  path: string;
+  type: 'directory' | 'symlink';
+  target?: string;
+}
+
+// Get the node at a path, creating directories on the way
+const ensureDirectory = (tree: FileTree, parts: string[]): FileTree => {
+  let node = tree;
+  parts.forEach(part => {
+    const existing = node[part];
+    if (!existing || existing.type !== 'directory') {
+      // A folder wins over a file listed under the same name
+      node[part] = { type: 'directory', children: existing?.children || {} };
+    }
+    node = node[part].children;
+  });
+  return node;
+};
+
+// Build a tree object from an array of file paths, plus the folders and
+// symlinks the source reported
+export const buildTree = (filePaths: string[], entries: TreeEntry[] = []): FileTree => {
+  const tree: FileTree = {};
+  filePaths.forEach(path => {
+    const parts = path.split('/');
+    const name = parts.pop()!;
+    const parent = ensureDirectory(tree, parts);
+    if (!parent[name]) parent[name] = { type: 'file', children: {} };
+  });
+  entries.forEach(({ path, type, target }) => {
+    const parts = path.split('/');
+    if (type === 'directory') {
+      ensureDirectory(tree, parts);
+      return;
+    }
+    const name = parts.pop()!;
+    const parent = ensureDirectory(tree, parts);
+    if (!parent[name]) parent[name] = target === undefined ? { type, children: {} } : { type, children: {}, target };
+  });
+  return tree;
+};
+
+export const isDirectory = (node: TreeNode): boolean => {
+  return node.type === 'directory';
+};
+
+// The entries of the root folder, which every built tree holds at the top
+export const rootEntries = (tree: FileTree, rootFolder: string): FileTree => {
+  return tree[rootFolder]?.children || {};
+};
+
+// Get the names of a node's children in display order
+export const sortedKeys = (tree: FileTree, sort: SortOptions): string[] => {
+  return Object.keys(tree).sort((a, b) => {
+    if (sort.directoriesFirst) {
+      const order = Number(isDirectory(tree[b])) - Number(isDirectory(tree[a]));
+      if (order !== 0) return order;
+    }
+    return compareNames(a, b, sort);
+  });
+};
+
+// Remove the given paths, relative to the tree, along with any folder left
+// empty by the removal. Returns a new tree.
+export const removePaths = (tree: FileTree, paths: string[]): FileTree => {
+  if (paths.length === 0) return tree;
+  const removed = new Set(paths);
+  const prune = (node: FileTree, prefix: string): FileTree => {
+    const pruned: FileTree = {};
+    for (const key of Object.keys(node)) {
+      const path = prefix + key;
+      if (removed.has(path)) continue;
+      const child = node[key];
+      if (isDirectory(child) && Object.keys(child.children).length > 0) {
+        const prunedChildren = prune(child.children, path + '/');
+        if (Object.keys(prunedChildren).length > 0) pruned[key] = { ...child, children: prunedChildren };
+      } else {
+        pruned[key] = child;
+      }
+    }
+    return pruned;
+  };
+  return prune(tree, '');
+};
+
+// Add or remove a manual exclusion. Exclusions inside the toggled path are
+// dropped either way, since the path now decides for everything below it.
+export const toggleExclusion = (exclusions: string[], path: string, exclude: boolean): string[] => {
+  const others = exclusions.filter(excluded => excluded !== path && !excluded.startsWith(path + '/'));
+  return exclude ? [...others, path].sort() : others;
+};
+
+// Check whether a path, relative to the tree, exists in it
+export const hasPath = (tree: FileTree, path: string): boolean => {
+  let node: FileTree = tree;
+  for (const part of path.split('/')) {
+    if (!Object.prototype.hasOwnProperty.call(node, part)) return false;
+    node = node[part].children;
+  }
+  return true;
+};
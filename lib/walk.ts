@@ -0,0 +1,103 @@
+// A lazy walk over a project folder, shared by the CLI and the browser's
+// directory sources. Ignore files are read before anything below them, so
+// folders that nothing can bring back, like node_modules, are never listed.
+
+import { createPathFilter } from './engine';
+import { isIgnoreFile, type IgnoreFile } from './gitignore';
+import type { GenerationSettings } from './settings';
+import type { TreeEntry } from './tree';
+
+export interface WalkFile {
+  name: string;
+  text: () => Promise<string>;
+  // Set for symlinks, which are listed with where they point but never read
+  linkTarget?: string;
+}
+
+export interface WalkDirectory<F extends WalkFile> {
+  name: string;
+  list: () => Promise<(F | WalkDirectory<F>)[]>;
+}
+
+export interface WalkResult {
+  rootFolder: string;
+  // Every file that was not skipped, starting with the root folder name
+  paths: string[];
+  ignoreFiles: IgnoreFile[];
+  // Empty folders, skipped folders and symlinks
+  treeEntries: TreeEntry[];
+}
+
+const isDirectoryItem = <F extends WalkFile>(item: F | WalkDirectory<F>): item is WalkDirectory<F> => {
+  return 'list' in item;
+};
+
+// The settings that decide which folders a walk skips. A walk has to be
+// repeated when these change.
+export const walkSettingsKey = (settings: GenerationSettings): string => {
+  return JSON.stringify({
+    respectGitignore: settings.respectGitignore,
+    useExtraIgnoreFiles: settings.useExtraIgnoreFiles,
+    excludeRules: settings.excludeRules.map(({ kind, pattern, enabled }) => ({ kind, pattern, enabled })),
+  });
+};
+
+// Walk the project, calling `onFile` for every file found with whether the
+// settings keep it
+export const walkProject = async <F extends WalkFile>(
+  root: WalkDirectory<F>,
+  settings: GenerationSettings,
+  onFile: (path: string, file: F, kept: boolean) => Promise<void> | void
+): Promise<WalkResult> => {
+  const rootFolder = root.name;
+  const paths: string[] = [];
+  const ignoreFiles: IgnoreFile[] = [];
+  const treeEntries: TreeEntry[] = [];
+  // Rebuilt whenever another ignore file is found
+  let filter = createPathFilter(rootFolder, ignoreFiles, settings);
+
+  const walk = async (directory: WalkDirectory<F>, relative: string) => {
+    const items = await directory.list();
+    if (items.length === 0 && relative !== rootFolder) {
+      treeEntries.push({ path: relative, type: 'directory' });
+      return;
+    }
+    const files = items.filter((item): item is F => !isDirectoryItem(item) && item.linkTarget === undefined);
+    const dirs = items.filter(isDirectoryItem);
+    items.forEach(item => {
+      if (!isDirectoryItem(item) && item.linkTarget !== undefined) {
+        treeEntries.push({ path: `${relative}/${item.name}`, type: 'symlink', target: item.linkTarget });
+      }
+    });
+
+    // The ignore files here apply to everything below, so read them first
+    let foundIgnoreFile = false;
+    for (const file of files) {
+      const path = `${relative}/${file.name}`;
+      if (isIgnoreFile(path, true)) {
+        ignoreFiles.push({ path, content: await file.text() });
+        foundIgnoreFile = true;
+      }
+    }
+    if (foundIgnoreFile) filter = createPathFilter(rootFolder, ignoreFiles, settings);
+
+    for (const file of files) {
+      const path = `${relative}/${file.name}`;
+      paths.push(path);
+      await onFile(path, file, filter.isKept(path));
+    }
+
+    for (const dir of dirs) {
+      const path = `${relative}/${dir.name}`;
+      if (!filter.isDirSkipped(path)) {
+        await walk(dir, path);
+      } else {
+        // Listed like an empty folder, so the preview can tell why it is missing
+        treeEntries.push({ path, type: 'directory' });
+      }
+    }
+  };
+
+  await walk(root, rootFolder);
+  return { rootFolder, paths, ignoreFiles, treeEntries };
+};
@@ -0,0 +1,116 @@
+// Starts jobs in the structure worker. Each job gets its own worker, so
+// cancelling a job simply terminates it.
+
+import type { RenderedStructure } from './engine';
+import type {
+  PackageRequest,
+  ProgressCallback,
+  ProjectScan,
+  RenderRequest,
+  SourceEntry,
+  TreeResult,
+  WorkerRequest,
+  WorkerResponse,
+} from './jobs';
+import type { RenderOptions } from './render';
+import type { GenerationSettings } from './settings';
+import type { FileStats } from './stats';
+import type { FileTree } from './tree';
+
+export interface WorkerJob<T> {
+  // Resolves with null when the job was cancelled
+  promise: Promise<T | null>;
+  cancel: () => void;
+}
+
+const startJob = <T>(
+  request: WorkerRequest,
+  onProgress: ProgressCallback,
+  pickResult: (response: WorkerResponse) => T | undefined
+): WorkerJob<T> => {
+  const worker = new Worker(new URL('./structure.worker.ts', import.meta.url), { type: 'module' });
+  let settle: (value: T | null) => void = () => {};
+
+  const promise = new Promise<T | null>((resolve, reject) => {
+    settle = resolve;
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const response = event.data;
+      if (response.type === 'progress') {
+        onProgress(response.phase, response.done, response.total);
+        return;
+      }
+      worker.terminate();
+      if (response.type === 'error') {
+        reject(new Error(response.message));
+        return;
+      }
+      const result = pickResult(response);
+      if (result !== undefined) resolve(result);
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'The structure worker failed'));
+    };
+  });
+
+  worker.postMessage(request);
+
+  const cancel = () => {
+    worker.terminate();
+    settle(null);
+  };
+
+  return { promise, cancel };
+};
+
+// Index the selected files and read their ignore files
+export const startScanJob = (entries: SourceEntry[], onProgress: ProgressCallback): WorkerJob<ProjectScan> => {
+  return startJob({ type: 'scan', entries }, onProgress, response =>
+    response.type === 'scanned' ? response.scan : undefined
+  );
+};
+
+// Filter the scanned files and build the tree
+export const startGenerateJob = (
+  scan: ProjectScan,
+  settings: GenerationSettings,
+  onProgress: ProgressCallback
+): WorkerJob<TreeResult> => {
+  return startJob({ type: 'generate', scan, settings }, onProgress, response =>
+    response.type === 'generated' ? response.result : undefined
+  );
+};
+
+// Render a built tree as text
+export const startRenderJob = (
+  tree: FileTree,
+  rootFolder: string,
+  options: RenderOptions,
+  fileStats: Record<string, FileStats>,
+  onProgress: ProgressCallback
+): WorkerJob<RenderedStructure> => {
+  return startJob({ type: 'render', tree, rootFolder, options, fileStats }, onProgress, response =>
+    response.type === 'rendered' ? response.rendered : undefined
+  );
+};
+
+// Build the tree of each package of a workspace
+export const startGeneratePackagesJob = (
+  scan: ProjectScan,
+  packages: PackageRequest[],
+  onProgress: ProgressCallback
+): WorkerJob<TreeResult[]> => {
+  return startJob({ type: 'generate-packages', scan, packages }, onProgress, response =>
+    response.type === 'packages-generated' ? response.results : undefined
+  );
+};
+
+// Render several built trees as text, in order
+export const startRenderManyJob = (
+  requests: RenderRequest[],
+  onProgress: ProgressCallback
+): WorkerJob<RenderedStructure[]> => {
+  return startJob({ type: 'render-many', requests }, onProgress, response =>
+    response.type === 'rendered-many' ? response.rendered : undefined
+  );
+};
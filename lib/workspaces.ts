@@ -0,0 +1,276 @@
+// Monorepos: finding the packages of npm, Yarn and pnpm workspaces, Lerna,
+// Nx, Cargo workspaces and go.work files, so each package can get a structure
+// section or a README of its own instead of being lost in one huge tree.
+
+import { applyConfig, type ProjectConfig } from './config';
+import { basenameOf, createIgnoreMatcher, dirnameOf, globToRegexSource, isIgnoreFile } from './gitignore';
+import type { ProjectScan } from './jobs';
+import type { RenderOptions } from './render';
+import type { GenerationSettings } from './settings';
+import { readTomlTables, tomlString, tomlStrings } from './toml';
+
+export type WorkspaceTool = 'pnpm' | 'yarn' | 'npm' | 'lerna' | 'nx' | 'cargo' | 'go';
+
+export const WORKSPACE_TOOL_LABELS: Record<WorkspaceTool, string> = {
+  pnpm: "pnpm workspaces",
+  yarn: "Yarn workspaces",
+  npm: "npm workspaces",
+  lerna: "Lerna",
+  nx: "Nx",
+  cargo: "Cargo workspace",
+  go: "Go workspace",
+};
+
+// How a workspace is written out: as one tree like any other project, as an
+// overview with a section per package, or as a README per package
+export type WorkspaceMode = 'tree' | 'sections' | 'readmes';
+
+export const WORKSPACE_MODE_LABELS: Record<WorkspaceMode, string> = {
+  tree: "One tree for everything",
+  sections: "Overview and a section per package",
+  readmes: "Overview and a README per package (zip)",
+};
+
+export interface WorkspacePackage {
+  // From the package's manifest, or its folder when it has no name
+  name: string;
+  // Folder relative to the root folder
+  path: string;
+}
+
+export interface Workspace {
+  tool: WorkspaceTool;
+  packages: WorkspacePackage[];
+}
+
+// Read a file by its path relative to the root folder; null when it is missing
+export type ReadProjectFile = (path: string) => Promise<string | null>;
+
+// The manifest that marks a package folder for each tool
+const PACKAGE_MANIFESTS: Record<WorkspaceTool, string[]> = {
+  pnpm: ['package.json'],
+  yarn: ['package.json'],
+  npm: ['package.json'],
+  lerna: ['package.json'],
+  nx: ['project.json', 'package.json'],
+  cargo: ['Cargo.toml'],
+  go: ['go.mod'],
+};
+
+const parseJson = (text: string | null): Record<string, unknown> | null => {
+  if (text === null) return null;
+  try {
+    const data: unknown = JSON.parse(text);
+    return typeof data === 'object' && data !== null && !Array.isArray(data) ? (data as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+};
+
+const stringList = (value: unknown): string[] => {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+};
+
+// The items of a top-level list in a YAML file, such as `packages:` in
+// pnpm-workspace.yaml
+const readYamlList = (text: string, key: string): string[] => {
+  const items: string[] = [];
+  let inList = false;
+  text.split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.replace(/\s+#.*$/, '');
+    if (!line.trim() || line.trim().startsWith('#')) return;
+    if (!/^\s/.test(line)) {
+      inList = line.trim() === `${key}:`;
+      return;
+    }
+    const item = /^\s*-\s*(.+)$/.exec(line);
+    if (inList && item) items.push(item[1].trim().replace(/^["']|["']$/g, ''));
+  });
+  return items;
+};
+
+// The folders named by `use` in a go.work file, on one line or in a block
+const readGoWorkUses = (text: string): string[] => {
+  const uses: string[] = [];
+  let inBlock = false;
+  text.split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.replace(/\/\/.*$/, '').trim();
+    if (/^use\s*\($/.test(line)) {
+      inBlock = true;
+    } else if (inBlock && line === ')') {
+      inBlock = false;
+    } else if (inBlock && line) {
+      uses.push(line);
+    } else {
+      const single = /^use\s+(\S+)$/.exec(line);
+      if (single) uses.push(single[1]);
+    }
+  });
+  return uses;
+};
+
+const cleanPattern = (pattern: string): string => {
+  return pattern.replace(/^\.\//, '').replace(/\/+$/, '');
+};
+
+// The folders holding one of the manifests, outside of installed dependencies
+const manifestFolders = (paths: string[], manifests: string[]): string[] => {
+  const folders = new Set<string>();
+  paths.forEach(path => {
+    const folder = dirnameOf(path).replace(/\/$/, '');
+    if (folder && manifests.includes(basenameOf(path)) && !/(?:^|\/)node_modules(?:\/|$)/.test(folder)) {
+      folders.add(folder);
+    }
+  });
+  return [...folders];
+};
+
+// Match folders against workspace globs, where `!` leaves folders out again
+const matchFolders = (folders: string[], patterns: string[], excludes: string[] = []): string[] => {
+  const toRegex = (pattern: string) => new RegExp(`^${globToRegexSource(cleanPattern(pattern))}$`);
+  const included = patterns.filter(pattern => !pattern.startsWith('!')).map(toRegex);
+  const excluded = [...patterns.filter(pattern => pattern.startsWith('!')).map(pattern => pattern.slice(1)), ...excludes]
+    .map(toRegex);
+  return folders.filter(folder => included.some(regex => regex.test(folder)) && !excluded.some(regex => regex.test(folder)));
+};
+
+// The package's name from its manifest, falling back to its folder
+const readPackageName = async (folder: string, tool: WorkspaceTool, paths: string[], read: ReadProjectFile) => {
+  for (const manifest of PACKAGE_MANIFESTS[tool]) {
+    const path = `${folder}/${manifest}`;
+    if (!paths.includes(path)) continue;
+    const text = await read(path);
+    if (text === null) continue;
+    let name: string | undefined;
+    if (manifest.endsWith('.json')) {
+      const data = parseJson(text);
+      name = data && typeof data.name === 'string' ? data.name : undefined;
+    } else if (manifest === 'Cargo.toml') {
+      name = tomlString(readTomlTables(text).package?.name);
+    } else {
+      name = /^module\s+(\S+)/m.exec(text)?.[1];
+    }
+    if (name) return name;
+  }
+  return folder;
+};
+
+// The tool and the package patterns it declares, checked in order of how
+// specific the declaration is
+const findDeclaration = async (
+  paths: string[],
+  read: ReadProjectFile
+): Promise<{ tool: WorkspaceTool; patterns: string[]; excludes?: string[] } | null> => {
+  if (paths.includes('pnpm-workspace.yaml')) {
+    const text = await read('pnpm-workspace.yaml');
+    const patterns = text === null ? [] : readYamlList(text, 'packages');
+    if (patterns.length > 0) return { tool: 'pnpm', patterns };
+  }
+  const packageJson = paths.includes('package.json') ? parseJson(await read('package.json')) : null;
+  if (packageJson) {
+    const { workspaces } = packageJson;
+    const patterns = Array.isArray(workspaces)
+      ? stringList(workspaces)
+      : stringList((workspaces as { packages?: unknown } | undefined)?.packages);
+    if (patterns.length > 0) return { tool: paths.includes('yarn.lock') ? 'yarn' : 'npm', patterns };
+  }
+  if (paths.includes('lerna.json')) {
+    const lerna = parseJson(await read('lerna.json'));
+    if (lerna) {
+      const patterns = stringList(lerna.packages);
+      return { tool: 'lerna', patterns: patterns.length > 0 ? patterns : ['packages/*'] };
+    }
+  }
+  // Nx finds its projects by their project.json files
+  if (paths.includes('nx.json')) return { tool: 'nx', patterns: ['**'] };
+  if (paths.includes('Cargo.toml')) {
+    const text = await read('Cargo.toml');
+    const workspace = text === null ? undefined : readTomlTables(text).workspace;
+    const members = tomlStrings(workspace?.members);
+    if (members.length > 0) return { tool: 'cargo', patterns: members, excludes: tomlStrings(workspace?.exclude) };
+  }
+  if (paths.includes('go.work')) {
+    const text = await read('go.work');
+    const uses = text === null ? [] : readGoWorkUses(text).map(cleanPattern).filter(use => use && use !== '.');
+    if (uses.length > 0) return { tool: 'go', patterns: uses };
+  }
+  return null;
+};
+
+// Find the workspace declared at the root of the project and its packages.
+// Paths are relative to the root folder. Returns null for a single project.
+export const detectWorkspace = async (paths: string[], read: ReadProjectFile): Promise<Workspace | null> => {
+  const declaration = await findDeclaration(paths, read);
+  if (!declaration) return null;
+  const { tool, patterns, excludes } = declaration;
+  const manifests = tool === 'nx' ? ['project.json'] : PACKAGE_MANIFESTS[tool];
+  const folders = matchFolders(manifestFolders(paths, manifests), patterns, excludes).sort();
+  if (folders.length === 0) return null;
+  const packages = await Promise.all(
+    folders.map(async path => ({ name: await readPackageName(path, tool, paths, read), path }))
+  );
+  return { tool, packages };
+};
+
+// The heading of a package's section: its name, and its folder when that says more
+export const packageTitle = (pkg: WorkspacePackage): string => {
+  return pkg.name === pkg.path || pkg.name === basenameOf(pkg.path) ? pkg.path : `${pkg.name} (${pkg.path})`;
+};
+
+// The part of a scan inside a package, as if its folder had been selected on
+// its own. Ignore files above the package still hide paths inside it, so a
+// root .gitignore keeps applying.
+export const packageScan = (scan: ProjectScan, packagePath: string, settings: GenerationSettings): ProjectScan => {
+  const prefix = `${scan.rootFolder}/${packagePath}/`;
+  const rootFolder = basenameOf(packagePath);
+  const rebase = (path: string) => `${rootFolder}/${path.slice(prefix.length)}`;
+  const outerIgnoreFiles = settings.respectGitignore
+    ? scan.ignoreFiles.filter(({ path }) => !path.startsWith(prefix) && isIgnoreFile(path, settings.useExtraIgnoreFiles))
+    : [];
+  const outerMatcher = createIgnoreMatcher(outerIgnoreFiles);
+  return {
+    rootFolder,
+    entries: scan.entries
+      .filter(entry => entry.path.startsWith(prefix) && !outerMatcher.isIgnored(entry.path, entry.type === 'directory'))
+      .map(entry => ({ ...entry, path: rebase(entry.path) })),
+    ignoreFiles: scan.ignoreFiles
+      .filter(({ path }) => path.startsWith(prefix))
+      .map(file => ({ ...file, path: rebase(file.path) })),
+    // A package README has no overview of its own
+    manifests: [],
+  };
+};
+
+// The settings for one package: the project's, with the unticked paths and
+// annotations below the package moved to its folder, then its own config
+export const packageSettings = (
+  settings: GenerationSettings,
+  packagePath: string,
+  config: ProjectConfig | null
+): GenerationSettings => {
+  const prefix = `${packagePath}/`;
+  const scoped: GenerationSettings = {
+    ...settings,
+    manualExclusions: settings.manualExclusions
+      .filter(path => path.startsWith(prefix))
+      .map(path => path.slice(prefix.length)),
+    annotations: Object.fromEntries(
+      Object.entries(settings.annotations)
+        .filter(([path]) => path.startsWith(prefix))
+        .map(([path, annotation]) => [path.slice(prefix.length), annotation])
+    ),
+  };
+  return config ? applyConfig(scoped, config) : scoped;
+};
+
+// Options for the overview tree, where each package folder is annotated with
+// its name unless it already has a description
+export const overviewRenderOptions = (options: RenderOptions, workspace: Workspace): RenderOptions => {
+  const annotations = { ...options.annotations };
+  workspace.packages.forEach(pkg => {
+    if (!annotations[pkg.path] && pkg.name !== pkg.path && pkg.name !== basenameOf(pkg.path)) {
+      annotations[pkg.path] = pkg.name;
+    }
+  });
+  return { ...options, annotations };
+};
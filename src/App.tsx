@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { 
   FolderOpen, 
   X, 
@@ -10,8 +10,14 @@ import {
   ChevronDown, 
   ChevronUp, 
   FolderX,
-  Plus,
-  Trash2
+  FolderCheck,
+  ListFilter,
+  RotateCcw,
+  Undo2,
+  FolderInput,
+  FolderSync,
+  FileArchive,
+  ClipboardList
 } from 'lucide-react';
 import {
   AlertDialog,
@@ -22,6 +28,104 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "../components/ui/alert-dialog";
+import {
+  ARCHIVE_EXTENSIONS,
+  archiveEntries,
+  archiveRootFolders,
+  defaultArchiveRoot,
+  isArchiveName,
+  createZip,
+  readEntryText,
+  startArchiveRead,
+  type Archive,
+} from '../lib/archives';
+import {
+  applyConfig,
+  CONFIG_FILE_NAMES,
+  findConfigPath,
+  formatConfig,
+  parseConfig,
+  settingsToConfig,
+  type ProjectConfig,
+} from '../lib/config';
+import {
+  getDroppedDirectory,
+  pickDirectory,
+  startDirectoryScan,
+  supportsDirectoryPicker,
+  type BrowserDirectory,
+} from '../lib/directory-sources';
+import { downloadBlob, downloadText } from '../lib/download';
+import { readmeFileName, renderReadme, type PackageSection, type RenderedStructure } from '../lib/engine';
+import { basenameOf } from '../lib/gitignore';
+import type { JobPhase, ProjectScan, SourceEntry, TreeResult } from '../lib/jobs';
+import {
+  formatStructureBlock,
+  OUTPUT_STYLE_LABELS,
+  type OutputStyle,
+  type RenderOptions,
+} from '../lib/render';
+import {
+  exportProfiles,
+  findProfileForFolder,
+  isSameSettings,
+  loadActiveProfileName,
+  loadProfiles,
+  loadSessionSettings,
+  mergeProfiles,
+  parseProfilesFile,
+  PROFILES_FILE_NAME,
+  storeActiveProfileName,
+  storeProfiles,
+  storeSessionSettings,
+  type Profile,
+} from '../lib/profiles';
+import {
+  buildOverviewSections,
+  readOverview,
+  renderOverview,
+  type OverviewSection,
+  type ProjectFacts,
+} from '../lib/overview';
+import { pathListEntries, type PathList } from '../lib/path-list';
+import { findReadmePath } from '../lib/readme';
+import { createDefaultExcludeRules } from '../lib/rules';
+import { DEFAULT_SETTINGS, pickRenderOptions, type GenerationSettings } from '../lib/settings';
+import { usesVariable, validateTemplate } from '../lib/template';
+import { walkSettingsKey } from '../lib/walk';
+import { snapshotFromTree } from '../lib/snapshots';
+import { rootEntries, toggleExclusion } from '../lib/tree';
+import {
+  startGenerateJob,
+  startGeneratePackagesJob,
+  startRenderJob,
+  startRenderManyJob,
+  startScanJob,
+  type WorkerJob,
+} from '../lib/worker-client';
+import {
+  detectWorkspace,
+  overviewRenderOptions,
+  packageSettings,
+  packageTitle,
+  type Workspace,
+  type WorkspaceMode,
+  type WorkspacePackage,
+} from '../lib/workspaces';
+import RulesEditor from '../components/RulesEditor';
+import OutputOptions from '../components/OutputOptions';
+import TreeView from '../components/TreeView';
+import ExclusionsPanel from '../components/ExclusionsPanel';
+import AnnotationsPanel from '../components/AnnotationsPanel';
+import ReadmeMergePanel from '../components/ReadmeMergePanel';
+import TemplateEditor from '../components/TemplateEditor';
+import ProfilesPanel from '../components/ProfilesPanel';
+import PathListInput from '../components/PathListInput';
+import OverviewPanel from '../components/OverviewPanel';
+import WorkspacePanel from '../components/WorkspacePanel';
+import StructureDiffPanel from '../components/StructureDiffPanel';
+import ExportPanel from '../components/ExportPanel';
+import DocumentPreview from '../components/DocumentPreview';
 
 declare module 'react' {
   interface InputHTMLAttributes<T> extends HTMLAttributes<T> {
@@ -30,65 +134,275 @@ declare module 'react' {
   }
 }
 
+// Labels for the phases reported by the structure worker
+const PHASE_LABELS: Record<JobPhase, string> = {
+  scanning: "Reading Files",
+  filtering: "Processing Files",
+  counting: "Counting Lines",
+  building: "Building Tree",
+  rendering: "Rendering Structure",
+};
+
+// Where the selected project came from. Directories can be walked again, and
+// an archive's root can be any of its top-level folders, or null for all of it.
+// Pasted paths have no contents to read.
+type ProjectSource =
+  | { kind: 'input'; files: FileList }
+  | { kind: 'directory'; root: BrowserDirectory }
+  | { kind: 'archive'; archive: Archive; root: string | null }
+  | { kind: 'paths'; rootFolder: string };
+
+// A package of a workspace with its config and the tree built for it
+interface PackageTree {
+  pkg: WorkspacePackage;
+  config: ProjectConfig | null;
+  result: TreeResult;
+}
+
+interface WorkspaceRendered {
+  overview: RenderedStructure;
+  trees: PackageTree[];
+  packages: RenderedStructure[];
+}
+
+// Convert a progress report into a percentage
+const toPercent = (done: number, total: number): number => {
+  return total > 0 ? Math.round((done / total) * 100) : 100;
+};
+
+// Cut a rendered structure short for the preview
+const truncatePreview = (structureText: string): string => {
+  const lines = structureText.split('\n');
+  let preview = lines.slice(0, 100).join('\n');
+  if (lines.length > 100) {
+    preview += `\n... (truncated, total ${lines.length} lines)`;
+  }
+  return preview;
+};
+
 function App() {
-  const [projectFiles, setProjectFiles] = useState<FileList | null>(null);
-  const [ignoreFoldersList, setIgnoreFoldersList] = useState<{ id: string; files: FileList | null }[]>([]);
+  const [projectSource, setProjectSource] = useState<ProjectSource | null>(null);
+  const [projectScan, setProjectScan] = useState<ProjectScan | null>(null);
   const [previewContent, setPreviewContent] = useState<string>("[Preview will appear here]");
   const [showGenerateButton, setShowGenerateButton] = useState(false);
   const [progress, setProgress] = useState(0);
+  const [progressPhase, setProgressPhase] = useState<JobPhase>('filtering');
   const [showProgress, setShowProgress] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
   const [alertDialog, setAlertDialog] = useState({ open: false, message: "" });
   const [projectExpanded, setProjectExpanded] = useState(false);
   const [rootFolderName, setRootFolderName] = useState("");
   const [structure, setStructure] = useState("");
-  // New state for simulated upload progress
-  const [uploadProgress, setUploadProgress] = useState<number>(0);
-  const [isUploading, setIsUploading] = useState<boolean>(false);
+  const [statsSummary, setStatsSummary] = useState("");
+  const [fileCount, setFileCount] = useState(0);
+  const [structureStyle, setStructureStyle] = useState<OutputStyle>(DEFAULT_SETTINGS.outputStyle);
+  const [treeResult, setTreeResult] = useState<TreeResult | null>(null);
+  const [settings, setSettings] = useState<GenerationSettings>(() => loadSessionSettings() || DEFAULT_SETTINGS);
+  const [profiles, setProfiles] = useState<Profile[]>(loadProfiles);
+  const [activeProfileName, setActiveProfileName] = useState<string | null>(loadActiveProfileName);
+  const [ruleMatchCounts, setRuleMatchCounts] = useState<Record<string, number> | null>(null);
+  // Progress of reading the selected folder; a total of 0 means it is unknown
+  const [scanProgress, setScanProgress] = useState({ done: 0, total: 0 });
+  const [isScanning, setIsScanning] = useState<boolean>(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [showPathList, setShowPathList] = useState(false);
+  const [overviewFacts, setOverviewFacts] = useState<ProjectFacts | null>(null);
+  const [overviewSections, setOverviewSections] = useState<OverviewSection[]>([]);
+  const [workspace, setWorkspace] = useState<Workspace | null>(null);
+  // One tree by default, as the CLI writes it; sections and READMEs per package are opt-in
+  const [workspaceMode, setWorkspaceMode] = useState<WorkspaceMode>('tree');
+  const [packageTrees, setPackageTrees] = useState<PackageTree[]>([]);
+  // The overview tree and the structure of each of the package trees
+  const [workspaceRendered, setWorkspaceRendered] = useState<WorkspaceRendered | null>(null);
 
   const projectInputRef = useRef<HTMLInputElement>(null);
+  const archiveInputRef = useRef<HTMLInputElement>(null);
+  // The worker job currently running, so it can be cancelled
+  const activeJobRef = useRef<WorkerJob<unknown> | null>(null);
+  // Path and content of the config file last applied, so later previews keep manual changes.
+  // Cleared whenever another project is opened, so its config is applied afresh.
+  const appliedConfigRef = useRef("");
+  // The settings a directory was last walked with, see walkSettingsKey
+  const walkKeyRef = useRef("");
+  // The manifest facts the overview was last written from, so a rescan keeps edits
+  const overviewKeyRef = useRef("");
 
-  // Helper: Build a tree object from an array of file paths
-  const buildTree = (filePaths: string[]): Record<string, Record<string, unknown>> => {
-    const tree: Record<string, Record<string, unknown>> = {};
-    filePaths.forEach(path => {
-      const parts = path.split('/');
-      let node: Record<string, Record<string, unknown>> = tree;
-      parts.forEach(part => {
-        if (!node[part]) {
-          node[part] = {};
-        }
-        node = node[part] as Record<string, Record<string, unknown>>;
+  // The README.md at the root of the selected folder, if there is one
+  const existingReadme = useMemo(() => {
+    if (!projectScan) return null;
+    const path = findReadmePath(projectScan.entries.map(entry => entry.path), projectScan.rootFolder);
+    const entry = projectScan.entries.find(candidate => candidate.path === path);
+    return entry && entry.file ? { path: entry.path, text: () => readEntryText(entry) } : null;
+  }, [projectScan]);
+
+  // The current structure, for comparing with a saved snapshot
+  const currentSnapshot = useMemo(() => (treeResult ? snapshotFromTree(treeResult) : null), [treeResult]);
+
+  // Write the overview from the manifests at the root of the selected folder,
+  // unless they say the same as before
+  useEffect(() => {
+    if (!projectScan) {
+      overviewKeyRef.current = "";
+      setOverviewFacts(null);
+      setOverviewSections([]);
+      return;
+    }
+    const { rootFolder, entries, manifests } = projectScan;
+    // The same paths the engine sees, so the CLI writes the same overview
+    const paths = entries.filter(entry => entry.file).map(entry => entry.path);
+    const { facts, sections } = readOverview(manifests, paths, rootFolder);
+    const key = `${rootFolder}\n${JSON.stringify(facts)}`;
+    if (key === overviewKeyRef.current) return;
+    overviewKeyRef.current = key;
+    setOverviewFacts(facts);
+    setOverviewSections(sections);
+  }, [projectScan]);
+
+  // Look for the packages of a monorepo in the selected folder
+  useEffect(() => {
+    setWorkspace(null);
+    setPackageTrees([]);
+    if (!projectScan) return;
+    let cancelled = false;
+    const { rootFolder, entries } = projectScan;
+    const files = new Map<string, SourceEntry>();
+    entries.forEach(entry => {
+      if (entry.file) files.set(entry.path.slice(rootFolder.length + 1), entry);
+    });
+    detectWorkspace([...files.keys()], async path => (files.has(path) ? readEntryText(files.get(path)!) : null))
+      .then(found => {
+        if (!cancelled) setWorkspace(found);
+      })
+      .catch((error: Error) => {
+        if (!cancelled) showAlert(`Could not read the workspace: ${error.message}`);
       });
+    return () => {
+      cancelled = true;
+    };
+  }, [projectScan]);
+
+  const activeProfile = profiles.find(profile => profile.name === activeProfileName) || null;
+
+  // Keep the settings and profiles for the next visit. A failure is reported
+  // once, as they are stored again on every change.
+  const storageFailedRef = useRef(false);
+  useEffect(() => {
+    try {
+      storeSessionSettings(settings);
+      storeProfiles(profiles);
+      storeActiveProfileName(activeProfile ? activeProfile.name : null);
+    } catch (error) {
+      if (storageFailedRef.current) return;
+      storageFailedRef.current = true;
+      setAlertDialog({ open: true, message: (error as Error).message });
+    }
+  }, [settings, profiles, activeProfile]);
+
+  // Only the options that affect rendering trigger a new render
+  const renderOptionsKey = JSON.stringify(pickRenderOptions(settings));
+
+  // Render the built tree again whenever it or an output option changes
+  useEffect(() => {
+    if (!treeResult) return;
+    const options: RenderOptions = JSON.parse(renderOptionsKey);
+    const { tree, rootFolder, fileStats } = treeResult;
+    const job = startRenderJob(tree, rootFolder, options, fileStats, (phase, done, total) => {
+      setProgressPhase(phase);
+      setProgress(toPercent(done, total));
     });
-    return tree;
-  };
+    job.promise
+      .then(rendered => {
+        if (rendered === null) return;
+        const structureText = rendered.structure;
+        setStructure(structureText);
+        setStructureStyle(options.outputStyle);
+        setStatsSummary(options.includeStatsSummary ? rendered.summary : "");
+        setFileCount(rendered.fileCount);
 
-  // Helper: Recursively remove any key equal to keyToRemove from the tree
-  const removeKeyRecursively = (obj: Record<string, Record<string, unknown>>, keyToRemove: string) => {
-    for (const key in obj) {
-      if (key === keyToRemove) {
-        delete obj[key];
-      } else {
-        removeKeyRecursively(obj[key] as Record<string, Record<string, unknown>>, keyToRemove);
-      }
+        // Display preview in the right panel
+        setPreviewContent(truncatePreview(structureText));
+        setShowGenerateButton(true);
+        // The preview is done, so the progress panel would only show a stale 100%
+        setShowProgress(false);
+      })
+      .catch((error: Error) => {
+        setShowProgress(false);
+        setAlertDialog({ open: true, message: `Could not render the structure: ${error.message}` });
+      });
+    return () => job.cancel();
+  }, [treeResult, renderOptionsKey]);
+
+  // The settings each package is rendered with, which follow the project's
+  const packageRenderKey = JSON.stringify(
+    packageTrees.map(({ pkg, config }) => pickRenderOptions(packageSettings(settings, pkg.path, config)))
+  );
+
+  // Render the workspace overview, with packages collapsed, and each package
+  useEffect(() => {
+    if (!treeResult || !workspace || packageTrees.length === 0) {
+      setWorkspaceRendered(null);
+      return;
     }
+    const options: RenderOptions = JSON.parse(renderOptionsKey);
+    const packageOptions: RenderOptions[] = JSON.parse(packageRenderKey);
+    const job = startRenderManyJob(
+      [
+        {
+          tree: treeResult.tree,
+          rootFolder: treeResult.rootFolder,
+          options: overviewRenderOptions(options, workspace),
+          fileStats: treeResult.fileStats,
+          collapsedPaths: workspace.packages.map(pkg => pkg.path),
+        },
+        ...packageTrees.map(({ result }, index) => ({
+          tree: result.tree,
+          rootFolder: result.rootFolder,
+          options: packageOptions[index],
+          fileStats: result.fileStats,
+          collapsedPaths: [],
+        })),
+      ],
+      () => {}
+    );
+    job.promise
+      .then(rendered => {
+        if (rendered) setWorkspaceRendered({ overview: rendered[0], trees: packageTrees, packages: rendered.slice(1) });
+      })
+      .catch((error: Error) => {
+        setAlertDialog({ open: true, message: `Could not render the packages: ${error.message}` });
+      });
+    return () => job.cancel();
+  }, [treeResult, workspace, packageTrees, renderOptionsKey, packageRenderKey]);
+
+  // Update a single generation setting
+  const updateSetting = <K extends keyof GenerationSettings>(key: K, value: GenerationSettings[K]) => {
+    setSettings(prev => ({ ...prev, [key]: value }));
+  };
+
+  // Tick or untick a path in the interactive tree
+  const handleToggleExclusion = (path: string, exclude: boolean) => {
+    setSettings(prev => ({
+      ...prev,
+      manualExclusions: toggleExclusion(prev.manualExclusions, path, exclude),
+    }));
   };
 
-  // Helper: Convert the tree object to a formatted string
-  const treeToString = (tree: Record<string, Record<string, unknown>>, indent = ''): string[] => {
-    let lines: string[] = [];
-    const keys = Object.keys(tree);
-    keys.forEach((key, index) => {
-      const isLast = index === keys.length - 1;
-      const prefix = isLast ? indent + '└── ' : indent + '├── ';
-      lines.push(prefix + key);
-      const children = tree[key];
-      if (Object.keys(children).length > 0) {
-        const childIndent = indent + (isLast ? '    ' : '│   ');
-        lines = lines.concat(treeToString(children as Record<string, Record<string, unknown>>, childIndent));
+  // Set or clear the description of a path
+  const handleAnnotate = (path: string, annotation: string) => {
+    setSettings(prev => {
+      const annotations = { ...prev.annotations };
+      if (annotation) {
+        annotations[path] = annotation;
+      } else {
+        delete annotations[path];
       }
+      return { ...prev, annotations };
     });
-    return lines;
+  };
+
+  // Write the overview again from the manifests, dropping edits
+  const handleRegenerateOverview = () => {
+    if (overviewFacts && projectScan) setOverviewSections(buildOverviewSections(overviewFacts, projectScan.rootFolder));
   };
 
   // Show alert dialog
@@ -96,151 +410,438 @@ function App() {
     setAlertDialog({ open: true, message });
   };
 
-  // Handle project files selection with simulated upload progress
-  const handleProjectFilesChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files.length > 0) {
-      setIsUploading(true);
-      setUploadProgress(0);
-      // Simulate an upload progress over 1 second
-      const totalTime = 1000; // total simulation time in ms
-      const intervalTime = 100; // update every 100ms
-      let simulatedProgress = 0;
-      const interval = setInterval(() => {
-        simulatedProgress += 10;
-        setUploadProgress(Math.min(simulatedProgress, 100));
-        if (simulatedProgress >= 100) {
-          clearInterval(interval);
-        }
-      }, intervalTime);
-      setTimeout(() => {
-        setProjectFiles(e.target.files);
-        setIsUploading(false);
-      }, totalTime);
-    } else {
-      setProjectFiles(null);
+  // Stop the running worker job, if any
+  const cancelActiveJob = () => {
+    activeJobRef.current?.cancel();
+    activeJobRef.current = null;
+    setIsScanning(false);
+    if (isGenerating) {
+      setIsGenerating(false);
+      setShowProgress(false);
     }
   };
 
-  // Handle adding a new ignore folder input
-  const handleAddIgnoreFolder = () => {
-    setIgnoreFoldersList([...ignoreFoldersList, { id: Date.now().toString(), files: null }]);
+  // Forget the files chosen in the pickers, so choosing the same one again fires a change
+  const resetFileInputs = () => {
+    if (projectInputRef.current) projectInputRef.current.value = "";
+    if (archiveInputRef.current) archiveInputRef.current.value = "";
   };
 
-  // Handle ignore files selection for a specific input
-  const handleIgnoreFilesChange = (id: string, files: FileList | null) => {
-    setIgnoreFoldersList(prevList => 
-      prevList.map(item => 
-        item.id === id ? { ...item, files } : item
-      )
+  // Clear the selected project folder
+  const clearProjectFiles = () => {
+    cancelActiveJob();
+    resetFileInputs();
+    setProjectSource(null);
+    setProjectScan(null);
+    appliedConfigRef.current = "";
+  };
+
+  // Run a scan job for the selected folder. Resolves null when it was
+  // cancelled or failed.
+  const runScan = async (job: WorkerJob<ProjectScan>): Promise<ProjectScan | null> => {
+    activeJobRef.current = job;
+    setIsScanning(true);
+    setScanProgress({ done: 0, total: 0 });
+    try {
+      const scan = await job.promise;
+      if (scan) setProjectScan(scan);
+      return scan;
+    } catch (error) {
+      showAlert(`Could not read the project folder: ${(error as Error).message}`);
+      return null;
+    } finally {
+      if (activeJobRef.current === job) {
+        activeJobRef.current = null;
+        setIsScanning(false);
+      }
+    }
+  };
+
+  // Switch to the profile saved for a folder with this name
+  const detectProfile = (scan: ProjectScan) => {
+    const profile = findProfileForFolder(profiles, scan.rootFolder);
+    if (profile && profile.name !== activeProfileName) handleSelectProfile(profile.name);
+  };
+
+  // Walk a directory, skipping the folders the settings exclude
+  const scanDirectorySource = (root: BrowserDirectory, walkSettings: GenerationSettings) => {
+    walkKeyRef.current = walkSettingsKey(walkSettings);
+    return runScan(startDirectoryScan(root, walkSettings, (_phase, done, total) => setScanProgress({ done, total })));
+  };
+
+  // Open a picked or dropped directory
+  const openDirectory = async (root: BrowserDirectory) => {
+    cancelActiveJob();
+    resetFileInputs();
+    setProjectScan(null);
+    setProjectSource({ kind: 'directory', root });
+    appliedConfigRef.current = "";
+    const scan = await scanDirectorySource(root, settings);
+    if (scan) detectProfile(scan);
+  };
+
+  // Walk the opened directory again to pick up changes on disk
+  const handleRefresh = () => {
+    if (projectSource?.kind !== 'directory') return;
+    cancelActiveJob();
+    scanDirectorySource(projectSource.root, settings);
+  };
+
+  // Index the files under the chosen root of an archive
+  const scanArchiveSource = (archive: Archive, root: string | null) => {
+    return runScan(startScanJob(archiveEntries(archive, root), (_phase, done, total) => setScanProgress({ done, total })));
+  };
+
+  // Read a ZIP or tar archive and open its project root
+  const openArchive = async (file: File) => {
+    cancelActiveJob();
+    setProjectScan(null);
+    setProjectSource(null);
+
+    const job = startArchiveRead(file, (_phase, done, total) => setScanProgress({ done, total }));
+    activeJobRef.current = job;
+    setIsScanning(true);
+    setScanProgress({ done: 0, total: 0 });
+    let archive: Archive | null = null;
+    try {
+      archive = await job.promise;
+    } catch (error) {
+      showAlert(`Could not read ${file.name}: ${(error as Error).message}`);
+    } finally {
+      if (activeJobRef.current === job) {
+        activeJobRef.current = null;
+        setIsScanning(false);
+      }
+    }
+    if (!archive) return;
+    if (archive.entries.length === 0) {
+      showAlert(`${file.name} has no files in it.`);
+      return;
+    }
+
+    const root = defaultArchiveRoot(archive);
+    setProjectSource({ kind: 'archive', archive, root });
+    appliedConfigRef.current = "";
+    const scan = await scanArchiveSource(archive, root);
+    if (scan) detectProfile(scan);
+  };
+
+  const handleArchiveChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) openArchive(file);
+  };
+
+  // Use another top-level folder of the archive as the project root
+  const handleArchiveRootChange = async (root: string | null) => {
+    if (projectSource?.kind !== 'archive') return;
+    cancelActiveJob();
+    setProjectScan(null);
+    setProjectSource({ ...projectSource, root });
+    appliedConfigRef.current = "";
+    const scan = await scanArchiveSource(projectSource.archive, root);
+    if (scan) detectProfile(scan);
+  };
+
+  // Use pasted paths as the project, in place of a folder
+  const handlePathListSubmit = async (list: PathList, rootFolder: string) => {
+    cancelActiveJob();
+    resetFileInputs();
+    setShowPathList(false);
+    setProjectScan(null);
+    setProjectSource({ kind: 'paths', rootFolder });
+    appliedConfigRef.current = "";
+    const scan = await runScan(
+      startScanJob(pathListEntries(list, rootFolder), (_phase, done, total) => setScanProgress({ done, total }))
     );
+    if (scan) detectProfile(scan);
+  };
+
+  const handlePickDirectory = async () => {
+    try {
+      const root = await pickDirectory();
+      if (root) await openDirectory(root);
+    } catch (error) {
+      showAlert(`Could not open the folder: ${(error as Error).message}`);
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setIsDragging(true);
   };
 
-  // Handle removing an ignore folder input
-  const handleRemoveIgnoreFolder = (id: string) => {
-    setIgnoreFoldersList(prevList => prevList.filter(item => item.id !== id));
+  const handleDragLeave = (e: React.DragEvent) => {
+    // Only when the pointer leaves the page, not when it moves between elements
+    if (e.relatedTarget === null) setIsDragging(false);
   };
 
-  // Handle start over
+  const handleDrop = async (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    // Read before waiting, as the dropped files are gone afterwards
+    const droppedFile = e.dataTransfer.files[0];
+    const root = await getDroppedDirectory(e.dataTransfer);
+    if (root) {
+      await openDirectory(root);
+    } else if (droppedFile && isArchiveName(droppedFile.name)) {
+      await openArchive(droppedFile);
+    } else {
+      showAlert(`Drop a folder or an archive (${ARCHIVE_EXTENSIONS.join(', ')}) rather than individual files.`);
+    }
+  };
+
+  // Handle project files selection, reading the folder in the worker
+  const handleProjectFilesChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files;
+    cancelActiveJob();
+    setProjectScan(null);
+    if (!files || files.length === 0) {
+      setProjectSource(null);
+      return;
+    }
+
+    setProjectSource({ kind: 'input', files });
+    appliedConfigRef.current = "";
+    const entries: SourceEntry[] = Array.from(files, file => ({ path: file.webkitRelativePath, file }));
+    const scan = await runScan(startScanJob(entries, (_phase, done, total) => setScanProgress({ done, total })));
+    if (scan) detectProfile(scan);
+  };
+
+  // Switch to a profile and its settings, or stop using profiles
+  const handleSelectProfile = (name: string | null) => {
+    const profile = profiles.find(candidate => candidate.name === name);
+    setActiveProfileName(profile ? profile.name : null);
+    if (profile) setSettings(profile.settings);
+  };
+
+  // Save the current settings under a name, remembering the selected folder
+  const handleSaveProfile = (name: string) => {
+    const existing = profiles.find(profile => profile.name === name);
+    const rootFolders = existing ? existing.rootFolders : [];
+    const rootFolder = projectScan ? projectScan.rootFolder : null;
+    const profile: Profile = {
+      name,
+      rootFolders: rootFolder && !rootFolders.includes(rootFolder) ? [...rootFolders, rootFolder] : rootFolders,
+      settings,
+    };
+    // A folder loads a single profile, so other profiles let go of it
+    const others = profiles.map(other => ({
+      ...other,
+      rootFolders: other.rootFolders.filter(folder => folder !== rootFolder),
+    }));
+    setProfiles(mergeProfiles(others, [profile]));
+    setActiveProfileName(name);
+  };
+
+  const handleDeleteProfile = (name: string) => {
+    setProfiles(profiles.filter(profile => profile.name !== name));
+    if (activeProfileName === name) setActiveProfileName(null);
+  };
+
+  const handleImportProfiles = async (file: File) => {
+    try {
+      const imported = parseProfilesFile(await file.text());
+      setProfiles(prev => mergeProfiles(prev, imported));
+      showAlert(`Imported ${imported.length} ${imported.length === 1 ? 'profile' : 'profiles'}.`);
+    } catch (error) {
+      showAlert(`Could not import ${file.name}: ${(error as Error).message}`);
+    }
+  };
+
+  // Handle start over, going back to the active profile or the defaults
   const handleStartOver = () => {
-    if (projectInputRef.current) projectInputRef.current.value = "";
-    setProjectFiles(null);
-    setIgnoreFoldersList([]);
+    clearProjectFiles();
+    setSettings(activeProfile ? activeProfile.settings : DEFAULT_SETTINGS);
+    setRuleMatchCounts(null);
     setPreviewContent("[Preview will appear here]");
     setShowGenerateButton(false);
     setShowProgress(false);
     setProgress(0);
     setRootFolderName("");
     setStructure("");
+    setStatsSummary("");
+    setFileCount(0);
+    setTreeResult(null);
+    setPackageTrees([]);
+  };
+
+  // Read the config committed in each package of a workspace, if any
+  const loadPackageConfigs = (scan: ProjectScan, found: Workspace): Promise<(ProjectConfig | null)[]> => {
+    const paths = scan.entries.map(entry => entry.path);
+    return Promise.all(
+      found.packages.map(async pkg => {
+        const configPath = findConfigPath(paths, `${scan.rootFolder}/${pkg.path}`);
+        const entry = scan.entries.find(candidate => candidate.path === configPath);
+        if (!configPath || !entry?.file) return null;
+        return parseConfig(await readEntryText(entry), `${pkg.path}/${basenameOf(configPath)}`);
+      })
+    );
   };
 
   // Handle preview generation
-  const handlePreview = () => {
-    if (!projectFiles || projectFiles.length === 0) {
+  const handlePreview = async () => {
+    let scan = projectScan;
+    if (!scan || scan.entries.length === 0) {
       showAlert("Please select a project folder.");
       return;
     }
 
-    // Determine the root folder name from the project input
-    const firstFilePath = projectFiles[0].webkitRelativePath;
-    const rootFolder = firstFilePath.split('/')[0];
-    setRootFolderName(rootFolder);
-
-    // Build a set of ignore folder names from all ignore inputs
-    const ignoreFolders = new Set<string>();
-    ignoreFoldersList.forEach(({ files }) => {
-      if (files) {
-        for (let i = 0; i < files.length; i++) {
-          const parts = files[i].webkitRelativePath.split('/');
-          if (parts.length > 0) {
-            ignoreFolders.add(parts[0]);
-          }
+    cancelActiveJob();
+    setRootFolderName(scan.rootFolder);
+
+    // Load the project's committed config when it is new or has changed
+    let generationSettings = settings;
+    const configPath = findConfigPath(scan.entries.map(entry => entry.path), scan.rootFolder);
+    const configEntry = scan.entries.find(entry => entry.path === configPath);
+    if (configPath && configEntry?.file) {
+      const configText = await readEntryText(configEntry);
+      if (`${configPath}\n${configText}` !== appliedConfigRef.current) {
+        try {
+          generationSettings = applyConfig(settings, parseConfig(configText, basenameOf(configPath)));
+          appliedConfigRef.current = `${configPath}\n${configText}`;
+          setSettings(generationSettings);
+        } catch (error) {
+          showAlert((error as Error).message);
+          return;
         }
       }
-    });
-    
-    // Automatically add unwanted folders
-    ignoreFolders.add("node_modules");
-    ignoreFolders.add(".git");
-    ignoreFolders.add(".DS_Store");
-    ignoreFolders.add(".expo");
-    ignoreFolders.add("android");
-    ignoreFolders.add("ios");
-    ignoreFolders.add("build");
-    ignoreFolders.add(".next");
-
-    // Build a list of project file paths
-    const filePaths: string[] = [];
-    const totalFiles = projectFiles.length;
-    
+    }
+
+    // A walked directory skipped what the old settings excluded, so walk it again
+    if (projectSource?.kind === 'directory' && walkSettingsKey(generationSettings) !== walkKeyRef.current) {
+      scan = await scanDirectorySource(projectSource.root, generationSettings);
+      if (!scan) return;
+    }
+
     // Show progress bar for processing files
     setShowProgress(true);
+    setIsGenerating(true);
     setProgress(0);
 
-    // Process files with a small delay to allow UI to update
-    setTimeout(() => {
-      for (let i = 0; i < totalFiles; i++) {
-        const file = projectFiles[i];
-        const relPath = file.webkitRelativePath;
-        const firstPart = relPath.split('/')[0];
-        if (!ignoreFolders.has(firstPart)) {
-          filePaths.push(relPath);
-        }
-        
-        // Update progress every 100 files to avoid excessive re-renders
-        if (i % 100 === 0 || i === totalFiles - 1) {
-          setProgress(Math.round(((i + 1) / totalFiles) * 100));
-        }
+    const reportProgress = (phase: JobPhase, done: number, total: number) => {
+      setProgressPhase(phase);
+      setProgress(toPercent(done, total));
+    };
+    const job = startGenerateJob(scan, generationSettings, reportProgress);
+    // The job running now, which is the packages job once the project's tree is built
+    let currentJob: WorkerJob<unknown> = job;
+    activeJobRef.current = job;
+    try {
+      const result = await job.promise;
+      if (!result) return;
+
+      // Each package of a workspace gets a tree of its own, with its own config
+      let packages: PackageTree[] = [];
+      if (workspace) {
+        const configs = await loadPackageConfigs(scan, workspace);
+        const packagesJob = startGeneratePackagesJob(
+          scan,
+          workspace.packages.map((pkg, index) => ({
+            path: pkg.path,
+            settings: packageSettings(generationSettings, pkg.path, configs[index]),
+          })),
+          reportProgress
+        );
+        currentJob = packagesJob;
+        activeJobRef.current = packagesJob;
+        const results = await packagesJob.promise;
+        if (!results) return;
+        packages = workspace.packages.map((pkg, index) => ({ pkg, config: configs[index], result: results[index] }));
       }
 
-      // Build tree from the remaining file paths
-      const tree = buildTree(filePaths);
-      removeKeyRecursively(tree, "node_modules");
-      removeKeyRecursively(tree, ".git");
-      removeKeyRecursively(tree, ".DS_Store");
-      removeKeyRecursively(tree, ".expo");
-      removeKeyRecursively(tree, "android");
-      removeKeyRecursively(tree, "ios");
-      removeKeyRecursively(tree, "build");
-      removeKeyRecursively(tree, ".next");
-
-      let structureLines: string[] = [];
-      structureLines.push(rootFolder);
-      // Use only the children of the root folder with an initial indent of 4 spaces
-      if (tree[rootFolder]) {
-        structureLines = structureLines.concat(treeToString(tree[rootFolder] as Record<string, Record<string, unknown>>, '    '));
+      setRuleMatchCounts(result.matchCounts);
+      // The render effects pick up the new trees
+      setTreeResult(result);
+      setPackageTrees(packages);
+    } catch (error) {
+      setShowProgress(false);
+      showAlert(`Could not generate the structure: ${(error as Error).message}`);
+    } finally {
+      if (activeJobRef.current === currentJob) {
+        activeJobRef.current = null;
+        setIsGenerating(false);
       }
-      const structureText = structureLines.join('\n');
-      setStructure(structureText);
-
-      // Display preview in the right panel
-      const lines = structureText.split('\n');
-      let preview = lines.slice(0, 100).join('\n');
-      if (lines.length > 100) {
-        preview += `\n... (truncated, total ${lines.length} lines)`;
+    }
+  };
+
+  // Fill the README template around a rendered structure
+  const buildReadme = (structureText: string, packages: PackageSection[] = []): string => {
+    return renderReadme(
+      {
+        rootFolder: rootFolderName,
+        structure: structureText,
+        style: structureStyle,
+        fileCount,
+        stats: statsSummary,
+        overview: renderOverview(overviewSections),
+        packages,
+      },
+      settings
+    );
+  };
+
+  // A workspace is written as an overview with its packages collapsed, unless
+  // it is kept as one tree
+  const workspaceOutput = workspace && workspaceMode !== 'tree' ? workspaceRendered : null;
+
+  // The section of each package, when they go into the same README
+  const packageSections = (cut: (structureText: string) => string): PackageSection[] => {
+    if (!workspaceOutput || workspaceMode !== 'sections') return [];
+    return workspaceOutput.trees.map(({ pkg }, index) => ({
+      title: packageTitle(pkg),
+      structure: cut(workspaceOutput.packages[index].structure),
+    }));
+  };
+
+  const templateError = validateTemplate(settings.template);
+  // The whole document as it will be downloaded, with the tree cut short
+  const previewDocument = !showGenerateButton
+    ? previewContent
+    : templateError
+      ? `The README template has an error: ${templateError}`
+      : workspaceOutput
+        ? buildReadme(truncatePreview(workspaceOutput.overview.structure), packageSections(truncatePreview))
+        : buildReadme(previewContent);
+
+  // The whole document as it will be downloaded; for a README per package,
+  // the overview
+  const buildFullDocument = (): string => {
+    return workspaceOutput
+      ? buildReadme(workspaceOutput.overview.structure, packageSections(text => text))
+      : buildReadme(structure);
+  };
+
+  // Download the overview and a README for each package in one zip
+  const downloadPackageReadmes = (rendered: WorkspaceRendered) => {
+    const files = [{ path: readmeFileName(settings, rootFolderName), content: buildReadme(rendered.overview.structure) }];
+    for (let index = 0; index < rendered.trees.length; index++) {
+      const { pkg, config, result } = rendered.trees[index];
+      const pkgSettings = packageSettings(settings, pkg.path, config);
+      const error = validateTemplate(pkgSettings.template);
+      if (error) {
+        showAlert(`The README template of ${pkg.path} has an error: ${error}`);
+        return;
       }
-      setPreviewContent(preview);
-      setShowGenerateButton(true);
-    }, 50);
+      const { structure: pkgStructure, summary, fileCount: pkgFileCount } = rendered.packages[index];
+      files.push({
+        path: `${pkg.path}/${readmeFileName(pkgSettings, result.rootFolder)}`,
+        content: renderReadme(
+          {
+            rootFolder: result.rootFolder,
+            structure: pkgStructure,
+            style: pkgSettings.outputStyle,
+            fileCount: pkgFileCount,
+            stats: pkgSettings.includeStatsSummary ? summary : "",
+            overview: "",
+            packages: [],
+          },
+          pkgSettings
+        ),
+      });
+    }
+    downloadBlob(createZip(files), `${rootFolderName}-readmes.zip`);
   };
 
   // Handle downloading the generated README file
@@ -250,45 +851,58 @@ function App() {
       showAlert("Missing structure or folder name.");
       return;
     }
-    const readmeContent = `# Project File and Folder Structure
-
-Below is the structure of the project:
-
-\`\`\`bash
-${structure}
-\`\`\`
-
-## generated with
-
-\`\`\`text
-https://generatereadme.pages.dev/
-\`\`\`
-`;
-    const blob = new Blob([readmeContent], { type: "text/markdown;charset=utf-8" });
-    const url = window.URL.createObjectURL(blob);
-    const link = document.createElement("a");
-    link.href = url;
-    link.download = `${rootFolderName}.md`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    window.URL.revokeObjectURL(url);
+    if (templateError) {
+      showAlert(`The README template has an error: ${templateError}`);
+      return;
+    }
+    if (workspaceOutput && workspaceMode === 'readmes') {
+      downloadPackageReadmes(workspaceOutput);
+    } else {
+      downloadText(buildFullDocument(), readmeFileName(settings, rootFolderName));
+    }
   };
 
-  // Get file count from FileList
-  const getFileCount = (files: FileList | null): number => {
-    return files ? files.length : 0;
+  // Get the paths of the files read from the selected project
+  const getProjectPaths = (source: ProjectSource | null, scan: ProjectScan | null): string[] => {
+    if (scan) return scan.entries.map(entry => entry.path);
+    return source?.kind === 'input' ? Array.from(source.files, file => file.webkitRelativePath) : [];
   };
 
-  // Get root folder name from FileList
-  const getRootFolderName = (files: FileList | null): string => {
-    if (!files || files.length === 0) return "";
-    const firstFilePath = files[0].webkitRelativePath;
+  // Get root folder name of the selected project
+  const getRootFolderName = (source: ProjectSource | null): string => {
+    if (!source) return "";
+    if (source.kind === 'directory') return source.root.name;
+    if (source.kind === 'archive') return source.root ?? source.archive.name;
+    if (source.kind === 'paths') return source.rootFolder;
+    if (source.files.length === 0) return "";
+    const firstFilePath = source.files[0].webkitRelativePath;
     return firstFilePath.split('/')[0];
   };
 
+  const projectPaths = getProjectPaths(projectSource, projectScan);
+  // Top-level folders to choose the root from, unless one folder holds everything
+  const archiveRoots =
+    projectSource?.kind === 'archive' && defaultArchiveRoot(projectSource.archive) === null
+      ? archiveRootFolders(projectSource.archive)
+      : [];
+
   return (
-    <div className="min-h-screen bg-gray-50">
+    <div
+      className="min-h-screen bg-gray-50"
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      {/* Drop Overlay */}
+      {isDragging && (
+        <div className="fixed inset-0 z-40 pointer-events-none bg-blue-600 bg-opacity-10 border-4 border-dashed border-blue-500 flex items-center justify-center">
+          <div className="bg-white rounded-xl shadow-lg px-6 py-4 text-lg font-semibold text-blue-700 flex items-center">
+            <FolderInput className="mr-2 h-6 w-6" />
+            Drop a project folder or archive to open it
+          </div>
+        </div>
+      )}
+
       {/* Sticky Header */}
       <header className="sticky top-0 z-50 bg-gradient-to-r from-blue-600 to-indigo-700 text-white py-4 shadow-lg">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -316,7 +930,7 @@ https://generatereadme.pages.dev/
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>Alert</AlertDialogTitle>
-            <AlertDialogDescription>{alertDialog.message}</AlertDialogDescription>
+            <AlertDialogDescription className="whitespace-pre-line">{alertDialog.message}</AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
             <AlertDialogAction>OK</AlertDialogAction>
@@ -355,12 +969,52 @@ https://generatereadme.pages.dev/
                     <FolderOpen size={18} className="mr-2" />
                     Select Project Folder
                   </label>
-                  {projectFiles && (
+                  <input
+                    type="file"
+                    id="projectArchive"
+                    ref={archiveInputRef}
+                    onChange={handleArchiveChange}
+                    accept={ARCHIVE_EXTENSIONS.join(',')}
+                    className="hidden"
+                  />
+                  <label
+                    htmlFor="projectArchive"
+                    className="p-2.5 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition cursor-pointer"
+                    title={`Open an archive (${ARCHIVE_EXTENSIONS.join(', ')})`}
+                  >
+                    <FileArchive size={18} />
+                  </label>
+                  <button
+                    onClick={() => setShowPathList(!showPathList)}
+                    className={`p-2.5 rounded-lg transition ${
+                      showPathList ? 'text-blue-600 bg-blue-50' : 'text-gray-500 hover:text-blue-600 hover:bg-blue-50'
+                    }`}
+                    title="Paste paths from git ls-files, find or tree"
+                  >
+                    <ClipboardList size={18} />
+                  </button>
+                  {supportsDirectoryPicker() && (
+                    <button
+                      onClick={handlePickDirectory}
+                      className="p-2.5 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition"
+                      title="Open a folder that can be refreshed later"
+                    >
+                      <FolderInput size={18} />
+                    </button>
+                  )}
+                  {projectSource?.kind === 'directory' && (
+                    <button
+                      onClick={handleRefresh}
+                      disabled={isScanning}
+                      className="p-2.5 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition disabled:opacity-50"
+                      title="Refresh: read the folder again"
+                    >
+                      <FolderSync size={18} />
+                    </button>
+                  )}
+                  {projectSource && (
                     <button 
-                      onClick={() => {
-                        if (projectInputRef.current) projectInputRef.current.value = "";
-                        setProjectFiles(null);
-                      }}
+                      onClick={clearProjectFiles}
                       className="p-2.5 text-gray-500 hover:text-red-500 hover:bg-red-50 rounded-lg transition"
                       title="Clear selection"
                     >
@@ -368,22 +1022,50 @@ https://generatereadme.pages.dev/
                     </button>
                   )}
                 </div>
-                {/* Simulated Upload Progress Bar */}
-                {isUploading && (
-                  <div className="w-full bg-gray-200 rounded-full h-2 mt-2">
-                    <div 
-                      className="bg-blue-600 h-2 rounded-full transition-all duration-300" 
-                      style={{ width: `${uploadProgress}%` }}
-                    ></div>
+                {showPathList && (
+                  <PathListInput onSubmit={handlePathListSubmit} onCancel={() => setShowPathList(false)} />
+                )}
+                {/* Folder Reading Progress Bar */}
+                {isScanning && (
+                  <div className="mt-2">
+                    <div className="flex justify-between text-xs text-gray-500 mb-1">
+                      <span>{PHASE_LABELS.scanning}</span>
+                      <div className="flex items-center gap-3">
+                        <span>
+                          {scanProgress.total > 0
+                            ? `${toPercent(scanProgress.done, scanProgress.total)}%`
+                            : `${scanProgress.done} files`}
+                        </span>
+                        <button
+                          onClick={cancelActiveJob}
+                          className="flex items-center text-xs text-gray-500 hover:text-red-500 transition"
+                          title="Stop reading the project"
+                        >
+                          <X size={14} className="mr-0.5" />
+                          Cancel
+                        </button>
+                      </div>
+                    </div>
+                    <div className="w-full bg-gray-200 rounded-full h-2">
+                      <div 
+                        className={`bg-blue-600 h-2 rounded-full transition-all duration-300 ${scanProgress.total > 0 ? '' : 'animate-pulse'}`}
+                        style={{ width: `${scanProgress.total > 0 ? toPercent(scanProgress.done, scanProgress.total) : 100}%` }}
+                      ></div>
+                    </div>
                   </div>
                 )}
                 
-                {projectFiles && (
+                {projectSource && (
                   <div className="bg-gray-50 rounded-lg border border-gray-200 p-4">
                     <div className="flex justify-between items-center">
                       <div>
-                        <div className="font-medium text-gray-900">{getRootFolderName(projectFiles)}</div>
-                        <div className="text-sm text-gray-600">{getFileCount(projectFiles)} files</div>
+                        <div className="font-medium text-gray-900">{getRootFolderName(projectSource)}</div>
+                        <div className="text-sm text-gray-600">
+                          {projectPaths.length} files
+                          {projectSource.kind === 'directory' && " (excluded folders are not read)"}
+                          {projectSource.kind === 'archive' && ` from ${projectSource.archive.name}`}
+                          {projectSource.kind === 'paths' && " (pasted)"}
+                        </div>
                       </div>
                       <button 
                         onClick={() => setProjectExpanded(!projectExpanded)}
@@ -392,16 +1074,36 @@ https://generatereadme.pages.dev/
                         {projectExpanded ? <ChevronUp size={18} /> : <ChevronDown size={18} />}
                       </button>
                     </div>
+
+                    {archiveRoots.length > 0 && projectSource.kind === 'archive' && (
+                      <div className="mt-3">
+                        <label htmlFor="archiveRoot" className="block text-xs font-medium text-gray-600 mb-1">
+                          Project root in the archive
+                        </label>
+                        <select
+                          id="archiveRoot"
+                          value={projectSource.root ?? ""}
+                          onChange={(e) => handleArchiveRootChange(e.target.value || null)}
+                          disabled={isScanning}
+                          className="w-full px-2 py-1.5 text-sm border border-gray-200 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-200"
+                        >
+                          <option value="">Whole archive ({projectSource.archive.name})</option>
+                          {archiveRoots.map(folder => (
+                            <option key={folder} value={folder}>{folder}</option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
                     
                     {projectExpanded && (
                       <div className="mt-3 max-h-40 overflow-y-auto text-sm bg-white rounded-md border border-gray-200 p-3">
                         <pre className="text-xs text-gray-600">
-                          {Array.from(projectFiles).slice(0, 100).map((file, index) => (
-                            <div key={index} className="truncate">{file.webkitRelativePath}</div>
+                          {projectPaths.slice(0, 100).map((path, index) => (
+                            <div key={index} className="truncate">{path}</div>
                           ))}
-                          {projectFiles.length > 100 && (
+                          {projectPaths.length > 100 && (
                             <div className="text-gray-500 mt-2 pt-2 border-t">
-                              ... and {projectFiles.length - 100} more files
+                              ... and {projectPaths.length - 100} more files
                             </div>
                           )}
                         </pre>
@@ -412,82 +1114,148 @@ https://generatereadme.pages.dev/
               </div>
             </div>
 
-            {/* Ignore Folders Selection */}
-            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
-              <div className="flex items-center justify-between mb-4">
-                <h2 className="text-lg font-semibold text-gray-800 flex items-center">
-                  <FolderX className="mr-2 h-5 w-5 text-gray-600" />
-                  Folders to Ignore
-                </h2>
-                <button
-                  onClick={handleAddIgnoreFolder}
-                  className="flex items-center px-3 py-1.5 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-md transition"
-                >
-                  <Plus size={16} className="mr-1" />
-                  Add Folder
-                </button>
-              </div>
+            {/* Workspace Packages */}
+            {workspace && (
+              <WorkspacePanel workspace={workspace} mode={workspaceMode} onModeChange={setWorkspaceMode} />
+            )}
 
-              <div className="space-y-4">
-                {ignoreFoldersList.map(({ id, files }) => (
-                  <div key={id} className="relative">
-                    <div className="flex items-center gap-2">
-                      <input 
-                        type="file" 
-                        id={`ignore-${id}`}
-                        onChange={(e) => handleIgnoreFilesChange(id, e.target.files)}
-                        webkitdirectory="true"
-                        directory=""
-                        multiple
-                        className="hidden"
-                      />
-                      <label 
-                        htmlFor={`ignore-${id}`}
-                        className="flex-1 flex items-center justify-center px-4 py-2.5 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition cursor-pointer"
-                      >
-                        <FolderX size={18} className="mr-2" />
-                        {files ? getRootFolderName(files) : 'Select Folder'}
-                      </label>
-                      <button 
-                        onClick={() => handleRemoveIgnoreFolder(id)}
-                        className="p-2.5 text-gray-500 hover:text-red-500 hover:bg-red-50 rounded-lg transition"
-                        title="Remove folder"
-                      >
-                        <Trash2 size={18} />
-                      </button>
-                    </div>
-                    {files && (
-                      <div className="mt-2 text-sm text-gray-600">
-                        {getFileCount(files)} files selected
-                      </div>
-                    )}
-                  </div>
-                ))}
+            {/* Profiles */}
+            <ProfilesPanel
+              profiles={profiles}
+              activeProfile={activeProfile}
+              isModified={activeProfile !== null && !isSameSettings(activeProfile.settings, settings)}
+              rootFolder={projectScan ? projectScan.rootFolder : null}
+              onSelect={handleSelectProfile}
+              onSave={handleSaveProfile}
+              onDelete={handleDeleteProfile}
+              onImport={handleImportProfiles}
+              onExport={() => downloadText(exportProfiles(profiles), PROFILES_FILE_NAME, "application/json")}
+              onExportConfig={() => downloadText(formatConfig(settingsToConfig(settings)), CONFIG_FILE_NAMES[0], "application/json")}
+            />
 
-                {ignoreFoldersList.length === 0 && (
-                  <div className="text-center py-6 text-gray-500 bg-gray-50 rounded-lg border border-dashed border-gray-300">
-                    <FolderX className="h-8 w-8 mx-auto mb-2 opacity-50" />
-                    <p className="text-sm">No ignore folders selected</p>
+            {/* Include and Exclude Rules */}
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+              <h2 className="text-lg font-semibold text-gray-800 mb-1 flex items-center">
+                <ListFilter className="mr-2 h-5 w-5 text-gray-600" />
+                Include &amp; Exclude Rules
+              </h2>
+              <p className="text-xs text-gray-500 mb-4">
+                A name like <code>node_modules</code> matches at any depth, a path like <code>build</code> only
+                from the project root, and a pattern is a glob like <code>**/*.test.ts</code>. Prefix with{' '}
+                <code>!</code> to bring paths back.
+              </p>
+
+              <div className="space-y-6">
+                <RulesEditor
+                  title="Exclude"
+                  icon={<FolderX className="mr-1.5 h-4 w-4 text-gray-500" />}
+                  rules={settings.excludeRules}
+                  onChange={(rules) => updateSetting('excludeRules', rules)}
+                  matchCounts={ruleMatchCounts}
+                  placeholder="e.g. **/*.test.ts"
+                  emptyText="Nothing is excluded"
+                  actions={
                     <button
-                      onClick={handleAddIgnoreFolder}
-                      className="mt-2 text-blue-600 hover:text-blue-700 text-sm font-medium"
+                      onClick={() => updateSetting('excludeRules', createDefaultExcludeRules())}
+                      className="flex items-center text-xs text-gray-500 hover:text-gray-700"
+                      title="Replace the exclude rules with the defaults"
                     >
-                      Add a folder to ignore
+                      <RotateCcw size={12} className="mr-1" />
+                      Restore defaults
                     </button>
-                  </div>
-                )}
+                  }
+                />
 
-                <div className="text-xs text-gray-500 mt-3">
-                  Note: node_modules, .git, and .DS_Store are automatically ignored
+                <RulesEditor
+                  title="Include"
+                  icon={<FolderCheck className="mr-1.5 h-4 w-4 text-gray-500" />}
+                  rules={settings.includeRules}
+                  onChange={(rules) => updateSetting('includeRules', rules)}
+                  matchCounts={ruleMatchCounts}
+                  placeholder="e.g. src/**"
+                  emptyText="Everything is included"
+                />
+
+                <div className="space-y-2 pt-3 border-t border-gray-100">
+                  <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={settings.respectGitignore}
+                      onChange={(e) => updateSetting('respectGitignore', e.target.checked)}
+                      className="rounded border-gray-300 text-blue-600"
+                    />
+                    Respect .gitignore files
+                  </label>
+                  <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={settings.useExtraIgnoreFiles}
+                      disabled={!settings.respectGitignore}
+                      onChange={(e) => updateSetting('useExtraIgnoreFiles', e.target.checked)}
+                      className="rounded border-gray-300 text-blue-600 disabled:opacity-50"
+                    />
+                    Also read .ignore and .dockerignore files
+                  </label>
                 </div>
+
+                {settings.manualExclusions.length > 0 && (
+                  <div className="pt-3 border-t border-gray-100">
+                    <div className="flex items-center justify-between mb-2">
+                      <h3 className="text-sm font-semibold text-gray-700">Unticked in Preview</h3>
+                      <button
+                        onClick={() => updateSetting('manualExclusions', [])}
+                        className="text-xs text-gray-500 hover:text-gray-700"
+                      >
+                        Clear all
+                      </button>
+                    </div>
+                    <ul className="space-y-1">
+                      {settings.manualExclusions.map(path => (
+                        <li key={path} className="flex items-center justify-between gap-2 text-sm">
+                          <code className="truncate text-gray-700">{path}</code>
+                          <button
+                            onClick={() => handleToggleExclusion(path, false)}
+                            className="p-1 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-md transition"
+                            title="Undo exclusion"
+                          >
+                            <Undo2 size={14} />
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
               </div>
             </div>
 
+            {/* Output Options */}
+            <OutputOptions settings={settings} onChange={updateSetting} />
+
+            {/* README Template */}
+            <TemplateEditor settings={settings} onChange={updateSetting} />
+
+            {/* Annotations */}
+            <AnnotationsPanel
+              annotations={settings.annotations}
+              onChange={(annotations) => updateSetting('annotations', annotations)}
+              tree={treeResult ? rootEntries(treeResult.tree, treeResult.rootFolder) : null}
+            />
+
+            {/* Project Overview */}
+            <OverviewPanel
+              sections={overviewSections}
+              onChange={setOverviewSections}
+              onRegenerate={handleRegenerateOverview}
+              sources={overviewFacts ? overviewFacts.sources : []}
+              templateHasOverview={usesVariable(settings.template, 'overview')}
+              hasProject={projectScan !== null}
+            />
+
             {/* Preview Button */}
             <button 
               onClick={handlePreview}
               className="w-full flex items-center justify-center px-6 py-3 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
-              disabled={!projectFiles}
+              disabled={!projectScan || isGenerating}
             >
               <Eye size={18} className="mr-2" />
               Generate Preview
@@ -496,9 +1264,21 @@ https://generatereadme.pages.dev/
             {/* Processing Files Progress Bar */}
             {showProgress && (
               <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
-                <div className="flex justify-between text-sm text-gray-600 mb-2">
-                  <span>Processing Files</span>
-                  <span>{progress}%</span>
+                <div className="flex justify-between items-center text-sm text-gray-600 mb-2">
+                  <span>{PHASE_LABELS[progressPhase]}</span>
+                  <div className="flex items-center gap-3">
+                    <span>{progress}%</span>
+                    {isGenerating && (
+                      <button
+                        onClick={cancelActiveJob}
+                        className="flex items-center text-xs text-gray-500 hover:text-red-500 transition"
+                        title="Stop generating the preview"
+                      >
+                        <X size={14} className="mr-0.5" />
+                        Cancel
+                      </button>
+                    )}
+                  </div>
                 </div>
                 <div className="w-full bg-gray-200 rounded-full h-2">
                   <div 
@@ -513,15 +1293,46 @@ https://generatereadme.pages.dev/
           {/* Right Panel */}
           <div className="w-full lg:w-3/5">
             <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 h-full">
-              <h2 className="text-lg font-semibold text-gray-800 mb-4 flex items-center">
-                <FileText className="mr-2 h-5 w-5 text-gray-600" />
-                Preview
-              </h2>
-              
-              <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 h-[500px] overflow-y-auto font-mono text-sm">
-                <pre className="whitespace-pre-wrap text-gray-700">{previewContent}</pre>
+              <div className="flex items-center justify-between mb-4 gap-4">
+                <h2 className="text-lg font-semibold text-gray-800 flex items-center">
+                  <FileText className="mr-2 h-5 w-5 text-gray-600" />
+                  Preview
+                </h2>
+                <select
+                  value={settings.outputStyle}
+                  onChange={(e) => updateSetting('outputStyle', e.target.value as OutputStyle)}
+                  className="px-2 py-1.5 text-sm border border-gray-200 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-200"
+                  title="Output style"
+                >
+                  {(Object.keys(OUTPUT_STYLE_LABELS) as OutputStyle[]).map(style => (
+                    <option key={style} value={style}>{OUTPUT_STYLE_LABELS[style]}</option>
+                  ))}
+                </select>
               </div>
               
+              {treeResult && (
+                <div className="bg-white border border-gray-200 rounded-lg p-3 mb-4 max-h-[300px] overflow-y-auto">
+                  <TreeView
+                    tree={rootEntries(treeResult.tree, treeResult.rootFolder)}
+                    rootFolder={treeResult.rootFolder}
+                    sort={settings}
+                    exclusions={settings.manualExclusions}
+                    onToggleExclusion={handleToggleExclusion}
+                    annotations={settings.annotations}
+                    onAnnotate={handleAnnotate}
+                  />
+                </div>
+              )}
+
+              {treeResult && <ExclusionsPanel exclusions={treeResult.exclusions} />}
+
+              <DocumentPreview
+                preview={previewDocument}
+                getDocument={showGenerateButton && !templateError ? buildFullDocument : null}
+                block={showGenerateButton ? formatStructureBlock(structure, structureStyle) : null}
+                onError={showAlert}
+              />
+              
               {showGenerateButton && (
                 <div className="mt-6 flex justify-center">
                   <button 
@@ -529,10 +1340,26 @@ https://generatereadme.pages.dev/
                     className="px-6 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 transition inline-flex items-center shadow-sm"
                   >
                     <FileText size={18} className="mr-2" />
-                    Generate README.md
+                    {workspaceOutput && workspaceMode === 'readmes' ? "Download READMEs (.zip)" : "Generate README.md"}
                   </button>
                 </div>
               )}
+
+              {showGenerateButton && (
+                <ReadmeMergePanel
+                  readme={existingReadme}
+                  block={formatStructureBlock(structure, structureStyle)}
+                  onError={showAlert}
+                />
+              )}
+
+              {showGenerateButton && currentSnapshot && (
+                <StructureDiffPanel current={currentSnapshot} settings={settings} onError={showAlert} />
+              )}
+
+              {showGenerateButton && treeResult && (
+                <ExportPanel treeResult={treeResult} settings={settings} onError={showAlert} />
+              )}
             </div>
           </div>
         </div>